@@ -3,47 +3,95 @@ import KoaRouter from "@koa/router";
 import KoaBody from "koa-body";
 import colors from "ansi-colors";
 import sinon from "sinon";
-import { AddressInfo } from "net";
+import { AddressInfo, Socket } from "net";
+import { AsyncLocalStorage, AsyncResource } from "async_hooks";
 import * as util from "util";
 import * as http from "http";
 import * as httpStatus from "http-status-codes";
+import { Readable, Stream } from "stream";
 import "reflect-metadata";
 
 import {
     AppRegistry,
     TestRegistry,
     TType,
+    TTypeRef,
+    TInjectionToken,
     TActionHandler,
     IModuleMetadata,
     IModuleParameters,
+    IDynamicModule,
+    TModuleDefinition,
     IProviderParameters,
     IMigrationMetadata,
     IControllerMetadata,
     IMiddlewareMetadata,
+    IMiddlewareReference,
     IActionMetadata,
     IActionAuthenticationMetadata,
     IActionAuthorizationMetadata,
     IActionGenericMetadata,
     IResourceArgMetadata,
+    IDtoFieldMetadata,
+    ISerializationFieldMetadata,
+    IResourceResolverMetadata,
+    IResourceValidatorMetadata,
     EInjectableType,
+    EServiceLifetime,
     EArgType,
     ERequestMethod,
     EMiddlewareOrder,
     ESuiteFunctionType,
+    EUnknownFields,
+    MIDDLEWARE_AUTHENTICATION,
+    MIDDLEWARE_RESOLVER,
+    MIDDLEWARE_POLICY,
+    MIDDLEWARE_GENERIC,
     VALID_REQUEST_METHODS
 } from "./decorators";
 
-import { ActionResponse, EResponseType } from "./responses";
-import { AuthorizationError, ParameterError, AuthenticationError } from "./errors";
+import { ActionResponse, EResponseType, ISerializer, StreamResponse } from "./responses";
+import { AppConfig, IConfigParams } from "./config";
+import { FileMigrationStore, IMigrationParams, IMigrationState, IMigrationStore } from "./migrations";
+import { IAppGraph, IGraphModule, IGraphController, IGraphAction, IGraphMiddleware, IGraphArgMiddleware } from "./graph";
+import {
+    AuthorizationError,
+    ParameterError,
+    AuthenticationError,
+    LifecycleError,
+    ILifecycleFailure,
+    MigrationError,
+    StartupError,
+    IStartupFailure,
+    ValidationError,
+    IValidationFailure,
+    NotAcceptableError
+} from "./errors";
+import { UploadedFile } from "./files";
 import { Test, ITestRouter, IApiResponse, ITestRequestOptions } from "./test";
 
 import * as os from "os";
+import * as fs from "fs";
 
 const DEFAULT_PORT = 80;
 const DEFAULT_HOST = "127.0.0.1";
+const DEFAULT_HOOK_TIMEOUT = 30000;
+const DEFAULT_SHUTDOWN_TIMEOUT = 10000;
+const DEFAULT_SERIALIZERS: {[mediaType: string]: ISerializer} = {
+    "application/json": {serialize: (data: any) => JSON.stringify(data)}
+};
+const DEFAULT_SHUTDOWN_SIGNALS: NodeJS.Signals[] = ["SIGTERM", "SIGINT"];
+const DEFAULT_VERSION_PREFIX = "v";
+const DEFAULT_VERSION_HEADER = "x-api-version";
+const DEFAULT_VERSION_PARAMETER = "version";
+const TRUE_VALUES = ["true", "1", "yes", "on"];
+const FALSE_VALUES = ["false", "0", "no", "off"];
+const SCALAR_TYPES: any[] = [String, Number, Boolean, Date];
+const EMPTY_STATUSES = [httpStatus.NO_CONTENT, httpStatus.RESET_CONTENT, httpStatus.NOT_MODIFIED];
 
 interface IModuleInstance {
     type: TType<any>;
+    definition: TModuleDefinition;
     name: string;
     route: string;
     params: IModuleParameters;
@@ -53,6 +101,7 @@ interface IModuleInstance {
     migrations: IMigrationInstance[];
     providers: IProviderInstance[];
     controllers: ControllerInstance[];
+    middlewares: IActionChain;
 }
 
 interface IServiceInstance {
@@ -67,10 +116,45 @@ interface IMigrationInstance {
 }
 
 interface IProviderInstance {
-    provides: any;
+    provides: TInjectionToken;
     type: TType<any>
 }
 
+interface IActionMiddleware {
+    // Module whose injector provides the middleware service.
+    module: IModuleInstance;
+    service: TType<any>;
+    name: string;
+    params: any[];
+}
+
+// Middlewares of an action, in execution order.
+interface IActionChain {
+    authentication: IActionMiddleware[];
+    authorization: IActionMiddleware[];
+    before: IActionMiddleware[];
+    after: IActionMiddleware[];
+}
+
+interface IRouteEntry {
+    action: string;
+    version: string;
+    module: IModuleInstance;
+    metadata: IActionMetadata;
+    chain: IActionChain;
+    // Not set when the action could not be registered.
+    layer?: KoaRouter.Layer;
+}
+
+interface ILifecycleEntry {
+    target: TType<any>;
+    instance: IServiceInstance;
+}
+
+interface IRequestScope {
+    services: Map<TType<any>, IServiceInstance>;
+}
+
 interface IInjectableInstance {
     index: number;
     service: any;
@@ -111,15 +195,56 @@ export interface IBodyParserParams {
     readonly urlencoded?: boolean;
 }
 
+export interface ILifecycleParams {
+    readonly initTimeout?: number;
+    readonly destroyTimeout?: number;
+}
+
+export const enum EVersioningType {
+    URL = "url",
+    HEADER = "header",
+    MEDIA_TYPE = "media-type"
+}
+
+export interface IVersioningParams {
+    readonly type: EVersioningType;
+    // URL prefix (default: "v"), header name (default: "x-api-version") or Accept parameter (default: "version").
+    readonly key?: string;
+    // Version of the requests not specifying one.
+    readonly defaultVersion?: string;
+}
+
+export interface ICookieParams {
+    // Keys signing cookies, the first one signs and all of them verify (for rotation).
+    readonly keys: string[];
+}
+
+export interface IShutdownParams {
+    readonly timeout?: number;
+    readonly signals?: NodeJS.Signals[];
+    // Time to keep accepting connections, with /healthcheck reporting draining, before closing the server (default: 0).
+    readonly drainDelay?: number;
+}
+
 export interface IAppParams {
     readonly logger?: ILogger;
-    readonly modules: TType<any>[];
+    readonly lifecycle?: ILifecycleParams;
+    readonly shutdown?: IShutdownParams;
+    readonly config?: IConfigParams;
+    readonly migrations?: IMigrationParams;
+    readonly versioning?: IVersioningParams;
+    readonly cookies?: ICookieParams;
+    // Serializers of DataResponse, by media type (JSON is built in).
+    readonly serializers?: {[mediaType: string]: ISerializer};
+    readonly modules: TModuleDefinition[];
     readonly parser?: IBodyParserParams;
 }
 
 export interface IAppContext {
     method: ERequestMethod;
     route: string;
+    // Path matched by the routers instead of the request path.
+    routerPath?: string;
 }
 
 export type TAppContext = KoaRouter.RouterContext<any, IAppContext>;
@@ -128,31 +253,97 @@ export class AppInjector {
 
     private _app: App;
 
+    // Module owning this injector (undefined for the application root injector).
+    private _module: TType<any>;
+
+    private _declared: Set<TType<any>>;
+    private _imports: AppInjector[];
+    private _exports: Set<TInjectionToken>;
+
     private _services: Map<TType<any>, IServiceInstance>;
     private _providers: Map<string, IServiceInstance>;
     private _migrations: Map<string, IMigrationInstance>;
 
-    constructor(app: App) {
+    // Values of token providers, and the async factories still being resolved.
+    private _tokens: Map<TInjectionToken, any>;
+    private _pending: Map<TInjectionToken, Promise<void>>;
+
+    // Async providers injected as proxies, before being resolved.
+    private _proxied: Set<TInjectionToken>;
+
+    // Services currently being instantiated, in resolution order.
+    private _resolving: TType<any>[];
+
+    // Singletons of all modules, dependencies first.
+    private _lifecycle: ILifecycleEntry[];
+
+    // Request scope of the action being executed.
+    private _scope: AsyncLocalStorage<IRequestScope>;
+
+    constructor(app: App, root?: AppInjector, targetModule?: TType<any>) {
         this._app = app;
+        this._module = targetModule;
+
+        // Module injectors share the resolution state of the root injector.
+        this._resolving = root !== undefined ? root._resolving : new Array<TType<any>>();
+        this._lifecycle = root !== undefined ? root._lifecycle : new Array<ILifecycleEntry>();
+        this._scope = root !== undefined ? root._scope : new AsyncLocalStorage<IRequestScope>();
+
+        this._declared = new Set<TType<any>>();
+        this._imports = new Array<AppInjector>();
+        this._exports = new Set<TInjectionToken>();
 
         this._services = new Map<TType<any>, IServiceInstance>();
         this._providers = new Map<string, IServiceInstance>();
         this._migrations = new Map<string, IMigrationInstance>();
+        this._tokens = new Map<TInjectionToken, any>();
+        this._pending = new Map<TInjectionToken, Promise<void>>();
+        this._proxied = new Set<TInjectionToken>();
+    }
+
+    public declareServices(targets: TType<any>[]): void {
+        targets.forEach((target: TType<any>) => this._declared.add(target));
+    }
+
+    public addImport(injector: AppInjector): void {
+        if (!this._imports.includes(injector)) {
+            this._imports.push(injector);
+        }
+    }
+
+    public addExports(tokens: TInjectionToken[]): void {
+        for (const token of tokens) {
+            const imported = this._imports.some((injector: AppInjector) => injector._module === token);
+            if (!imported && !this._owns(token)) {
+                throw new Error(util.format(
+                    "[ornate] Module %s exports %s, which is neither declared in it nor an imported module",
+                    colors.blue(this._module.name),
+                    colors.cyan(this.getTokenName(token))
+                ));
+            }
+
+            this._exports.add(token);
+        }
     }
 
     public hasService<T extends IServiceInstance>(target: TType<T>): boolean {
-        return this._services.get(target) !== undefined;
+        return this._findInjector(target) !== undefined;
     }
 
     public getService<T extends IServiceInstance>(target: TType<T>): T {
-        const instance = this._services.get(target);
-        if (instance === undefined) {
+        if (this._findInjector(target) === undefined) {
             throw new Error(util.format("Service not found: %s", colors.cyan(target.name)));
         }
-        return instance as T;
+        return this.newService(target);
     }
 
     public getProvider<T extends IServiceInstance>(name: string, ...params: any[]): T {
+        // Value, class and factory providers are resolved like any token.
+        const owner = this._findInjector(name);
+        if (owner !== undefined && (owner._tokens.has(name) || owner._pending.has(name))) {
+            return owner.getToken(name);
+        }
+
         let instance = this._providers.get(name);
         if (instance === undefined) {
             // Search all modules for the provider definition.
@@ -164,13 +355,67 @@ export class AppInjector {
                 throw new Error(util.format("Provider not found: %s", colors.cyan(name)));
             }
 
+            if (provider.type === undefined) {
+                throw new Error(util.format(
+                    "[ornate] Provider %s is not visible from module %s: import the module providing it",
+                    colors.cyan(name),
+                    colors.blue(this._module !== undefined ? this._module.name : "App")
+                ));
+            }
+
             instance = this.newProvider(name, provider.type, ...params);
         }
         return instance as T;
     }
 
+    public getToken<T>(token: TInjectionToken): T {
+        const injector = this._findInjector(token);
+        if (injector !== undefined && injector !== this) {
+            return injector.getToken(token);
+        }
+
+        if (this._tokens.has(token)) {
+            return this._tokens.get(token);
+        }
+
+        if (this._pending.has(token)) {
+            return this._newPendingProvider(token);
+        }
+
+        // Classes without a provider are resolved as services.
+        if (typeof token === "function") {
+            return this.newService(token as TType<T>);
+        }
+
+        throw new Error(util.format("Provider not found: %s", colors.cyan(this.getTokenName(token))));
+    }
+
+    public async resolveProviders(): Promise<void> {
+        if (this._module === undefined) {
+            await Promise.all(this._app.modules.map(async (m: IModuleInstance) => m.injector.resolveProviders()));
+        }
+
+        await Promise.all([...this._pending.values()]);
+
+        // Proxies can only stand for objects.
+        for (const token of this._proxied) {
+            const value = this._tokens.get(token);
+            if (value === null || (typeof value !== "object" && typeof value !== "function")) {
+                throw new Error(util.format(
+                    "[ornate] Async provider %s was injected before being resolved, which requires an object (got: %s). Use getToken() in onInit instead",
+                    colors.cyan(this.getTokenName(token)),
+                    value === null ? "null" : typeof value
+                ));
+            }
+        }
+    }
+
     public getMigration<T extends IMigrationInstance>(name: string): T {
-        const instance = this._migrations.get(name);
+        const injector = this._module === undefined
+                       ? this._app.modules.map((m: IModuleInstance) => m.injector).find((i: AppInjector) => i._migrations.has(name))
+                       : this;
+
+        const instance = injector !== undefined ? injector._migrations.get(name) : undefined;
         if (instance === undefined) {
             throw new Error(util.format("Migration not found: %s", colors.cyan(name)));
         }
@@ -178,18 +423,83 @@ export class AppInjector {
     }
 
     public getMigrations(): string[] {
+        if (this._module === undefined) {
+            return this._app.modules.flatMap((m: IModuleInstance) => m.injector.getMigrations());
+        }
+
         return [...this._migrations.keys()];
     }
 
     public newService<T extends IServiceInstance>(target: TType<T>): T {
+        const injector = this._findInjector(target);
+        if (injector === undefined) {
+            throw this._module !== undefined
+                ? new Error(util.format(
+                    "[ornate] Module %s cannot use service %s: it's neither declared in the module nor exported by its imported modules",
+                    colors.blue(this._module.name),
+                    colors.cyan(target.name)
+                ))
+                : new Error(util.format("Service not found: %s", colors.cyan(target.name)));
+        }
+
+        // Services are always instantiated by the injector of the module declaring them.
+        if (injector !== this) {
+            return injector.newService(target);
+        }
+
         let instance = this._services.get(target);
         if (instance === undefined) {
-            instance = this._newInstance(target);
+            switch (this.getLifetime(target)) {
+                case EServiceLifetime.TRANSIENT:
+                    // Transient services are never cached.
+                    return this._newServiceInstance(target);
+
+                case EServiceLifetime.REQUEST:
+                    instance = this._newScopedService(target);
+                    break;
+
+                default:
+                    instance = this._newServiceInstance(target);
+                    this._lifecycle.push({target, instance});
+                    break;
+            }
+
             this._services.set(target, instance);
         }
         return instance as T;
     }
 
+    public getLifetime<T>(target: TType<T>): EServiceLifetime {
+        const serviceMetadata = AppRegistry.getServiceMetadata(target);
+        return serviceMetadata !== undefined ? serviceMetadata.lifetime : EServiceLifetime.SINGLETON;
+    }
+
+    public getLifecycle(): ILifecycleEntry[] {
+        // Dependencies are always instantiated before their dependents.
+        return [...this._lifecycle];
+    }
+
+    public newScope(): IRequestScope {
+        return {
+            services: new Map<TType<any>, IServiceInstance>()
+        };
+    }
+
+    public async runInScope<T>(scope: IRequestScope, func: () => Promise<T>): Promise<T> {
+        return this._scope.run(scope, func);
+    }
+
+    public async destroyScope(scope: IRequestScope): Promise<void> {
+        // Destroy in reverse order of creation.
+        for (const instance of [...scope.services.values()].reverse()) {
+            if (instance.onDestroy !== undefined) {
+                await instance.onDestroy();
+            }
+        }
+
+        scope.services.clear();
+    }
+
     public newProvider<T extends IProviderInstance>(name: string, target: TType<T>, ...params: any[]): T {
         const instance = this._newInstance(target, ...params) as T;
 
@@ -198,6 +508,21 @@ export class AppInjector {
         return instance;
     }
 
+    public newTokenProvider(provider: IProviderParameters): void {
+        if (provider.useClass !== undefined) {
+            const instance = this._newServiceInstance(provider.useClass);
+
+            this._tokens.set(provider.provides, instance);
+            this._lifecycle.push({target: provider.useClass, instance});
+
+        } else if (provider.useFactory !== undefined) {
+            this._newFactoryProvider(provider);
+
+        } else {
+            this._tokens.set(provider.provides, provider.useValue);
+        }
+    }
+
     public newMigration<T extends IMigrationInstance>(name: string, target: TType<T>): T {
         const instance = this._newInstance(target) as T;
 
@@ -211,8 +536,6 @@ export class AppInjector {
     }
 
     private _newInstance<T>(target: TType<T>, ...params: any[]): T {
-        // @TODO: This will fail on a circular dependency, with a cryptic error.
-        // Detect those by analysing what we're instantiating.
         const paramtypes = Reflect.getOwnMetadata("design:paramtypes", target);
 
         const constructor = paramtypes === undefined || paramtypes.length === 0
@@ -239,12 +562,174 @@ export class AppInjector {
                     }
                 }
 
+                // An undefined type means the class was not yet defined when decorated (circular imports).
+                if (f === undefined) {
+                    throw new Error(util.format(
+                        "[ornate] Unresolved dependency at index %d of: %s. Use @Lazy() for circular references",
+                        index,
+                        colors.cyan(target.name)
+                    ));
+                }
+
                 return this.newService(f);
             });
 
         return target.bind(undefined, ...args, ...params);
     }
 
+    private _newServiceInstance<T>(target: TType<T>): T {
+        if (this._resolving.includes(target)) {
+            const cycle = [...this._resolving.slice(this._resolving.indexOf(target)), target];
+
+            throw new Error(util.format(
+                "[ornate] Circular dependency detected: %s. Use @Lazy() to break the cycle",
+                cycle.map((t: TType<any>) => t.name).join(" -> ")
+            ));
+        }
+
+        this._resolving.push(target);
+        try {
+            return this._newInstance(target);
+        } finally {
+            this._resolving.pop();
+        }
+    }
+
+    private _newScopedService<T extends IServiceInstance>(target: TType<T>): T {
+        // Resolve the instance of the current request on every access.
+        return this._newProxy(() => {
+            const scope = this._scope.getStore();
+            if (scope === undefined) {
+                throw new Error(util.format("[ornate] Request scoped service used outside of a request: %s", colors.cyan(target.name)));
+            }
+
+            let instance = scope.services.get(target);
+            if (instance === undefined) {
+                instance = this._newServiceInstance(target);
+                scope.services.set(target, instance);
+            }
+            return instance as T;
+        });
+    }
+
+    private _newFactoryProvider(provider: IProviderParameters): void {
+        const inject = provider.inject !== undefined ? provider.inject : [];
+        const pending = inject.filter((token: TInjectionToken) => this._pending.has(token));
+
+        // Wait for async dependencies before calling the factory.
+        const value = pending.length === 0
+                    ? provider.useFactory(...inject.map((token: TInjectionToken) => this.getToken(token)))
+                    : Promise.all(pending.map(async (token: TInjectionToken) => this._pending.get(token)))
+                        .then(async () => provider.useFactory(...inject.map((token: TInjectionToken) => this.getToken(token))));
+
+        if (!(value instanceof Promise)) {
+            this._tokens.set(provider.provides, value);
+            return;
+        }
+
+        const promise = value.then((result: any) => {
+            this._tokens.set(provider.provides, result);
+            this._pending.delete(provider.provides);
+        });
+
+        // Rejections are reported when the providers are resolved.
+        promise.catch((): void => undefined);
+
+        this._pending.set(provider.provides, promise);
+    }
+
+    private _newPendingProvider<T>(token: TInjectionToken): T {
+        this._proxied.add(token);
+
+        return this._newProxy(() => {
+            if (!this._tokens.has(token)) {
+                throw new Error(util.format("[ornate] Async provider used before being resolved: %s", colors.cyan(this.getTokenName(token))));
+            }
+            return this._tokens.get(token);
+        });
+    }
+
+    private _getConfig<T>(target: TType<T>, key: string): any {
+        const config = this._app.config;
+        if (config === undefined) {
+            throw new Error(util.format("[ornate] No config defined in the app, required by: %s", colors.cyan(target.name)));
+        }
+
+        if (key === undefined) {
+            return config;
+        }
+
+        if (!config.has(key)) {
+            throw new Error(util.format(
+                "[ornate] Config key %s not declared in schema, required by: %s",
+                colors.yellow(key),
+                colors.cyan(target.name)
+            ));
+        }
+
+        return config.get(key);
+    }
+
+    private _owns(token: TInjectionToken): boolean {
+        return this._declared.has(token as TType<any>) || this._tokens.has(token) || this._pending.has(token);
+    }
+
+    private _findInjector(token: TInjectionToken): AppInjector {
+        // The root injector can reach every module.
+        if (this._module === undefined) {
+            const owner = this._app.modules.find((m: IModuleInstance) => m.injector._owns(token));
+            return owner !== undefined ? owner.injector : undefined;
+        }
+
+        if (this._owns(token)) {
+            return this;
+        }
+
+        return this._imports
+            .map((injector: AppInjector) => injector._findExported(token))
+            .find((injector: AppInjector) => injector !== undefined);
+    }
+
+    private _findExported(token: TInjectionToken): AppInjector {
+        if (this._exports.has(token) && this._owns(token)) {
+            return this;
+        }
+
+        // Search the re-exported modules.
+        return this._imports
+            .filter((injector: AppInjector) => this._exports.has(injector._module))
+            .map((injector: AppInjector) => injector._findExported(token))
+            .find((injector: AppInjector) => injector !== undefined);
+    }
+
+    public getTokenName(token: TInjectionToken): string {
+        return typeof token === "function" ? token.name : token.toString();
+    }
+
+    private _newLazyService<T extends IServiceInstance>(ref: TTypeRef<T>): T {
+        let instance: T;
+
+        // Defer the instantiation of the referenced service until it's first accessed.
+        return this._newProxy(() => {
+            if (instance === undefined) {
+                instance = this.newService(ref());
+            }
+            return instance;
+        });
+    }
+
+    private _newProxy<T extends object>(resolve: () => T): T {
+        return new Proxy({}, {
+            get: (obj: object, key: PropertyKey) => {
+                const value = Reflect.get(resolve(), key);
+                return typeof value === "function" ? value.bind(resolve()) : value;
+            },
+            set: (obj: object, key: PropertyKey, value: any) => Reflect.set(resolve(), key, value),
+            has: (obj: object, key: PropertyKey) => Reflect.has(resolve(), key),
+            getPrototypeOf: () => Reflect.getPrototypeOf(resolve())
+        }) as T;
+    }
+
     private _resolveInjectables<T>(target: TType<T>): IInjectableInstance[] {
         // Get injectables for this service.
         const injectableMetadata = AppRegistry.getInjectableMetadata(target);
@@ -258,6 +743,18 @@ export class AppInjector {
                     case EInjectableType.HTTP_SERVER:
                         injectables.push({index: metadata.index, service: this._app.server});
                         break;
+
+                    case EInjectableType.LAZY:
+                        injectables.push({index: metadata.index, service: this._newLazyService(metadata.ref)});
+                        break;
+
+                    case EInjectableType.TOKEN:
+                        injectables.push({index: metadata.index, service: this.getToken(metadata.token)});
+                        break;
+
+                    case EInjectableType.CONFIG:
+                        injectables.push({index: metadata.index, service: this._getConfig(target, metadata.key)});
+                        break;
                 }
             }
         }
@@ -276,6 +773,28 @@ export class App {
     private _injector: AppInjector;
     private _modules: IModuleInstance[];
 
+    private _lifecycle: ILifecycleParams;
+    private _config: AppConfig;
+    private _migrationStore: IMigrationStore;
+
+    // Graceful shutdown: open sockets with their in-flight requests count.
+    private _shutdown: IShutdownParams;
+    private _sockets: Map<Socket, number>;
+    private _draining: boolean;
+    private _signalHandler: (signal: NodeJS.Signals) => void;
+
+    // Versioned actions, with a router per version.
+    private _versioning: IVersioningParams;
+    private _versionRouters: Map<string, KoaRouter>;
+    private _serializers: Map<string, ISerializer>;
+
+    // Registered actions, in registration order, and the problems found while registering them.
+    private _routes: IRouteEntry[];
+    private _failures: IStartupFailure[];
+
+    // Modules currently being registered, in import order.
+    private _registering: TModuleDefinition[];
+
     private _logger: ILogger;
 
     constructor(params: IAppParams) {
@@ -284,6 +803,20 @@ export class App {
 
         this._injector = new AppInjector(this);
         this._modules = new Array<IModuleInstance>();
+        this._registering = new Array<TModuleDefinition>();
+        this._versioning = params.versioning;
+        this._versionRouters = new Map<string, KoaRouter>();
+        this._serializers = new Map<string, ISerializer>(Object.entries({...DEFAULT_SERIALIZERS, ...params.serializers}));
+        this._routes = new Array<IRouteEntry>();
+        this._failures = new Array<IStartupFailure>();
+        this._lifecycle = params.lifecycle !== undefined ? params.lifecycle : {};
+        this._config = params.config !== undefined ? new AppConfig(params.config) : undefined;
+        this._migrationStore = params.migrations !== undefined && params.migrations.store !== undefined
+                             ? params.migrations.store
+                             : new FileMigrationStore();
+        this._shutdown = params.shutdown;
+        this._sockets = new Map<Socket, number>();
+        this._draining = false;
 
         if (params.logger !== undefined) {
             this._logger = params.logger;
@@ -298,24 +831,48 @@ export class App {
             };
         }
 
+        if (params.cookies !== undefined) {
+            this._koaApp.keys = params.cookies.keys;
+        }
+
         if (params.parser !== undefined) {
             this._configureBodyParser(params.parser);
         }
 
         // For health checks.
         this._koaRouter.get("/healthcheck", async (ctx, next) => {
-            ctx.status = httpStatus.OK;
-            ctx.body = "backend: ok\n";
+            ctx.status = this._draining ? httpStatus.SERVICE_UNAVAILABLE : httpStatus.OK;
+            ctx.body = this._draining ? "backend: draining\n" : "backend: ok\n";
             await next();
         });
 
+        if (this._versioning !== undefined) {
+            this._koaApp.use(this._routeVersion.bind(this));
+        }
+
         this._koaApp.use(this._koaRouter.routes());
         this._koaApp.use(this._koaRouter.allowedMethods());
 
         this._httpServer = http.createServer(this._koaApp.callback());
 
-        for (const targetModule of params.modules) {
-            this._registerModule(targetModule, this._injector);
+        if (this._shutdown !== undefined) {
+            this._trackConnections();
+        }
+
+        for (const moduleDefinition of params.modules) {
+            this._registerModule(moduleDefinition);
+        }
+
+        this._removeImplicitHeads();
+
+        this._routes.forEach((route: IRouteEntry) => this._checkMiddlewares(route));
+        this._checkRoutes();
+
+        if (this._failures.length > 0) {
+            throw new StartupError(util.format(
+                "[ornate] Invalid actions: %s",
+                this._failures.map((f: IStartupFailure) => `${f.action} (${f.reason})`).join(", ")
+            ), this._failures);
         }
     }
 
@@ -327,10 +884,18 @@ export class App {
         return this._modules;
     }
 
+    public get config(): AppConfig {
+        return this._config;
+    }
+
     public get server(): http.Server {
         return this._httpServer;
     }
 
+    public get draining(): boolean {
+        return this._draining;
+    }
+
     public getRouter(): ITestRouter {
         const obj: ITestRouter = {};
 
@@ -346,35 +911,118 @@ export class App {
         return obj;
     }
 
-    public getUrl(name: string, params: {[key: string]: string}, query: {[key: string]: string}): string {
-        const url = this._koaRouter.url(name, params, {query});
+    public getUrl(name: string, params: {[key: string]: string}, query: {[key: string]: string | string[]}, version?: string): string {
+        // Without a version, the route of any version (the request decides which one runs).
+        const router = version !== undefined
+                     ? this._versionRouters.get(version)
+                     : [this._koaRouter, ...this._versionRouters.values()].find((r: KoaRouter) => Boolean(r.route(name)));
+
+        if (router === undefined) {
+            throw new ParameterError(util.format("Invalid route: %s (version: %s)", name, version));
+        }
+
+        const url = router.url(name, params, {query});
         if (url as any instanceof Error) {
             throw new ParameterError(util.format("Invalid route: %s", name));
         }
 
+        if (version !== undefined && this._versioning.type === EVersioningType.URL) {
+            return `/${this._getVersionKey()}${version}${url}`;
+        }
+
         return url;
     }
 
+    public getVersionHeaders(version?: string): {[header: string]: string} {
+        if (version === undefined || this._versioning === undefined) {
+            return {};
+        }
+
+        switch (this._versioning.type) {
+            case EVersioningType.HEADER:
+                return {[this._getVersionKey()]: version};
+
+            case EVersioningType.MEDIA_TYPE:
+                return {accept: `*/*;${this._getVersionKey()}=${version}`};
+
+            default:
+                return {};
+        }
+    }
+
+    public describe(): IAppGraph {
+        return {
+            modules: this._modules.map((moduleInstance: IModuleInstance) => this._describeModule(moduleInstance))
+        };
+    }
+
     public async run(): Promise<void> {
         await this._startServices();
     }
 
+    public async getPendingMigrations(): Promise<string[]> {
+        const applied = await this._migrationStore.load();
+
+        return this._getSortedMigrations().filter((name: string) => !applied.some((m: IMigrationState) => m.name === name));
+    }
+
+    public async migrate(): Promise<string[]> {
+        return this._withMigrationLock(async () => {
+            const applied = await this._migrationStore.load();
+            const pending = this._getSortedMigrations().filter((name: string) => !applied.some((m: IMigrationState) => m.name === name));
+
+            for (const name of pending) {
+                this._logger.info("[ornate] Applying migration: %s", colors.green(name));
+                await this._runMigration(name, "up");
+
+                // Saved after each migration, so a failure keeps the ones already applied.
+                applied.push({name, appliedAt: new Date().toISOString()});
+                await this._migrationStore.save(applied);
+            }
+
+            return pending;
+        });
+    }
+
+    public async rollback(count = 1): Promise<string[]> {
+        return this._withMigrationLock(async () => {
+            const applied = await this._migrationStore.load();
+            const rolledBack = new Array<string>();
+
+            while (rolledBack.length < count && applied.length > 0) {
+                const name = applied[applied.length - 1].name;
+
+                this._logger.info("[ornate] Rolling back migration: %s", colors.green(name));
+                await this._runMigration(name, "down");
+
+                applied.pop();
+                await this._migrationStore.save(applied);
+
+                rolledBack.push(name);
+            }
+
+            return rolledBack;
+        });
+    }
+
     public async stop(): Promise<void> {
         await this._stopServices();
     }
 
     public async close(): Promise<void> {
-        return new Promise<void>(async (resolve, reject) => {
+        if (this._shutdown === undefined) {
             await this._stopServices();
+            return this._closeServer();
+        }
 
-            this._httpServer.close((err: Error) => {
-                if (err !== undefined) {
-                    reject(err);
-                } else {
-                    resolve();
-                }
-            });
-        });
+        if (this._signalHandler !== undefined) {
+            this._getShutdownSignals().forEach((signal: NodeJS.Signals) => process.removeListener(signal, this._signalHandler));
+            this._signalHandler = undefined;
+        }
+
+        // Services are only stopped once all in-flight actions are done.
+        await this._drainConnections();
+        await this._stopServices();
     }
 
     public async listen(host: string, port: number): Promise<void> {
@@ -398,6 +1046,10 @@ export class App {
 
             this._startServices()
                 .then(() => {
+                    if (this._shutdown !== undefined) {
+                        this._handleShutdownSignals();
+                    }
+
                     this._httpServer.listen(
                         port !== undefined ? port : DEFAULT_PORT,
                         host !== undefined ? host : DEFAULT_HOST
@@ -407,49 +1059,190 @@ export class App {
         });
     }
 
-    private _getAddresses(): string[] {
-        const ifaces = os.networkInterfaces();
-        return Object.keys(os.networkInterfaces())
-            .flatMap((iname: string) => ifaces[iname])
-            .filter((iface: os.NetworkInterfaceInfo) => !iface.internal && iface.family === "IPv4")
-            .map((iface: os.NetworkInterfaceInfo) => iface.address);
+    private async _closeServer(): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            this._httpServer.close((err: Error) => {
+                if (err !== undefined) {
+                    reject(err);
+                } else {
+                    resolve();
+                }
+            });
+        });
     }
 
-    private async _startServices(): Promise<void> {
-        for (const moduleInstance of this._modules) {
-            if (moduleInstance.params.initialize !== undefined) {
-                for (const targetService of moduleInstance.params.initialize) {
-                    const serviceInstance = moduleInstance.injector.getService(targetService);
-                    if (serviceInstance.onInit !== undefined) {
-                        try {
-                            await serviceInstance.onInit(this);
-                        } catch (err) {
-                            this._logger.error("[ornate] Error starting service: [%s] %s", colors.cyan(targetService.name), colors.red(err.message));
-                            throw err;
-                        }
-                    }
-                }
-            }
-        }
+    private _trackConnections(): void {
+        this._httpServer.on("connection", (socket: Socket) => {
+            this._sockets.set(socket, 0);
+            socket.once("close", () => this._sockets.delete(socket));
+        });
+
+        this._httpServer.on("request", (request: http.IncomingMessage, response: http.ServerResponse) => {
+            const socket = request.socket;
+            this._sockets.set(socket, this._sockets.get(socket) + 1);
+
+            if (this._draining) {
+                response.setHeader("Connection", "close");
+            }
+
+            let done = false;
+            const onDone = () => {
+                if (done || !this._sockets.has(socket)) {
+                    return;
+                }
+                done = true;
+
+                const pending = this._sockets.get(socket) - 1;
+                this._sockets.set(socket, pending);
+
+                // Don't keep idle connections alive while draining.
+                if (this._draining && pending === 0) {
+                    socket.destroy();
+                }
+            };
+
+            response.once("finish", onDone);
+            response.once("close", onDone);
+        });
+    }
+
+    private async _drainConnections(): Promise<void> {
+        this._draining = true;
+
+        if (!this._httpServer.listening) {
+            return;
+        }
+
+        const timeout = this._shutdown.timeout !== undefined ? this._shutdown.timeout : DEFAULT_SHUTDOWN_TIMEOUT;
+        const drainDelay = this._shutdown.drainDelay !== undefined ? this._shutdown.drainDelay : 0;
+
+        this._logger.info("[ornate] %s (%d connections)", colors.italic.yellow("Draining connections"), this._sockets.size);
+
+        // Let health checks see the draining state before refusing connections.
+        if (drainDelay > 0) {
+            await new Promise((resolve) => setTimeout(resolve, drainDelay));
+        }
+
+        // Stop accepting connections and close the idle ones.
+        const closed = this._closeServer();
+
+        for (const [socket, pending] of this._sockets) {
+            if (pending === 0) {
+                socket.destroy();
+            }
+        }
+
+        let timer: NodeJS.Timeout;
+        const expired = new Promise<boolean>((resolve) => {
+            timer = setTimeout(() => resolve(true), timeout);
+        });
+
+        let timedOut: boolean;
+        try {
+            timedOut = await Promise.race([closed.then(() => false), expired]);
+        } finally {
+            clearTimeout(timer);
+        }
+
+        if (timedOut) {
+            this._logger.warn("[ornate] Shutdown deadline exceeded after %dms, closing %d connections", timeout, this._sockets.size);
+
+            for (const socket of this._sockets.keys()) {
+                socket.destroy();
+            }
+
+            await closed;
+        }
+    }
+
+    private _getShutdownSignals(): NodeJS.Signals[] {
+        return this._shutdown.signals !== undefined ? this._shutdown.signals : DEFAULT_SHUTDOWN_SIGNALS;
+    }
+
+    private _handleShutdownSignals(): void {
+        this._signalHandler = (signal: NodeJS.Signals) => {
+            this._logger.info("[ornate] Received %s, shutting down", colors.bold.white(signal));
+
+            this.close()
+                .then(() => process.exit(0))
+                .catch((err: Error) => {
+                    this._logger.error("[ornate] Error shutting down: %s", colors.red(err.message));
+                    process.exit(1);
+                });
+        };
+
+        this._getShutdownSignals().forEach((signal: NodeJS.Signals) => process.once(signal, this._signalHandler));
+    }
+
+    private _getAddresses(): string[] {
+        const ifaces = os.networkInterfaces();
+        return Object.keys(os.networkInterfaces())
+            .flatMap((iname: string) => ifaces[iname])
+            .filter((iface: os.NetworkInterfaceInfo) => !iface.internal && iface.family === "IPv4")
+            .map((iface: os.NetworkInterfaceInfo) => iface.address);
+    }
+
+    private async _startServices(): Promise<void> {
+        // Async providers must be available to services on init.
+        await this._injector.resolveProviders();
+
+        const timeout = this._lifecycle.initTimeout !== undefined ? this._lifecycle.initTimeout : DEFAULT_HOOK_TIMEOUT;
+
+        for (const entry of this._injector.getLifecycle()) {
+            if (entry.instance.onInit !== undefined) {
+                const failure = await this._runHook(entry, "onInit", timeout, async () => entry.instance.onInit(this));
+                if (failure !== undefined) {
+                    this._logger.error("[ornate] Error starting service: [%s] %s", colors.cyan(failure.service), colors.red(failure.reason));
+                    throw new LifecycleError(util.format("[ornate] Error starting service: %s (%s)", failure.service, failure.reason), [failure]);
+                }
+            }
+        }
 
         this._logger.info(util.format("[ornate] %s", colors.italic.green("All Services started")));
     }
 
     private async _stopServices(): Promise<void> {
-        try {
-            for (const m of this._modules) {
-                for (const service of m.services) {
-                    if (service.onDestroy !== undefined) {
-                        await service.onDestroy();
-                    }
+        const timeout = this._lifecycle.destroyTimeout !== undefined ? this._lifecycle.destroyTimeout : DEFAULT_HOOK_TIMEOUT;
+        const failures = new Array<ILifecycleFailure>();
+
+        // Stop dependents first, and keep stopping the rest on failure.
+        for (const entry of this._injector.getLifecycle().reverse()) {
+            if (entry.instance.onDestroy !== undefined) {
+                const failure = await this._runHook(entry, "onDestroy", timeout, async () => entry.instance.onDestroy());
+                if (failure !== undefined) {
+                    this._logger.error("[ornate] Error stopping service: [%s] %s", colors.cyan(failure.service), colors.red(failure.reason));
+                    failures.push(failure);
                 }
             }
+        }
+
+        if (failures.length > 0) {
+            throw new LifecycleError(util.format(
+                "[ornate] Error stopping services: %s",
+                failures.map((f: ILifecycleFailure) => `${f.service} (${f.reason})`).join(", ")
+            ), failures);
+        }
+
+        this._logger.info(util.format("[ornate] %s", colors.italic.yellow("All Services stopped")));
+    }
+
+    private async _runHook(entry: ILifecycleEntry, hook: string, timeout: number, func: () => Promise<void>): Promise<ILifecycleFailure> {
+        let timer: NodeJS.Timeout;
+
+        const expired = new Promise<string>((resolve) => {
+            timer = setTimeout(() => resolve(util.format("%s timed out after %dms", hook, timeout)), timeout);
+        });
+
+        try {
+            const reason = await Promise.race([func().then((): string => undefined), expired]);
 
-            this._logger.info(util.format("[ornate] %s", colors.italic.yellow("All Services stopped")));
+            return reason !== undefined ? {service: entry.target.name, hook, reason} : undefined;
 
         } catch (err) {
-            this._logger.error("[ornate] Error stopping service: %s", err.message);
-            throw err;
+            return {service: entry.target.name, hook, reason: err.message};
+
+        } finally {
+            clearTimeout(timer);
         }
     }
 
@@ -473,57 +1266,308 @@ export class App {
             }
 
             this._koaApp.use(KoaBody(options));
+            this._koaApp.use(this._removeUploadedFiles.bind(this));
         }
     }
 
-    private _registerModule<T>(targetModule: TType<T>, injector: AppInjector, parentModule?: IModuleInstance): void {
+    private async _removeUploadedFiles(context: Koa.Context, next: Koa.Next): Promise<void> {
+        try {
+            await next();
+
+        } finally {
+            const files = (context.request as any).files || {};
+
+            // Remove the temporary files of the request, once its action chain completed.
+            for (const file of [].concat(...Object.values(files))) {
+                await fs.promises.unlink(file.path).catch((err: NodeJS.ErrnoException) => {
+                    if (err.code !== "ENOENT") {
+                        this._logger.warn("[ornate] Error removing uploaded file: %s (%s)", file.path, err.message);
+                    }
+                });
+            }
+        }
+    }
+
+    private _registerModule<T>(moduleDefinition: TModuleDefinition, parentModule?: IModuleInstance): IModuleInstance {
+        // Modules imported more than once share the same instance (dynamic modules, per definition).
+        const existingModule = this._modules.find((m: IModuleInstance) => m.definition === moduleDefinition);
+        if (existingModule !== undefined) {
+            this._checkSharedModule(existingModule, parentModule);
+            return existingModule;
+        }
+
+        if (this._registering.includes(moduleDefinition)) {
+            const cycle = [...this._registering.slice(this._registering.indexOf(moduleDefinition)), moduleDefinition];
+
+            throw new Error(util.format(
+                "[ornate] Circular module import detected: %s",
+                cycle.map((d: TModuleDefinition) => this._getModuleType(d).name).join(" -> ")
+            ));
+        }
+
+        const targetModule = this._getModuleType(moduleDefinition) as TType<T>;
         const moduleMetadata = AppRegistry.getModuleMetadata(targetModule) as IModuleMetadata;
-        const moduleInstance = new targetModule() as T & IModuleInstance;
+        if (moduleMetadata === undefined) {
+            throw new Error(util.format("[ornate] Module metadata not found for: %s", colors.blue(targetModule.name)));
+        }
 
-        const parentRoute = parentModule !== undefined ? parentModule.route : "";
-        const moduleRoute = moduleMetadata.params.route !== undefined ? `${parentRoute}/${moduleMetadata.params.route}` : parentRoute;
+        const moduleParams = this._getModuleParameters(moduleMetadata, moduleDefinition);
+        if (moduleParams.initialize !== undefined && moduleParams.initialize.length > 0) {
+            this._logger.warn(
+                "[ornate] Module %s uses the deprecated initialize parameter: every service is initialized",
+                colors.blue(targetModule.name)
+            );
+        }
+        const moduleInstance = new targetModule() as T & IModuleInstance;
 
+        moduleInstance.type = targetModule;
+        moduleInstance.definition = moduleDefinition;
         moduleInstance.name = moduleMetadata.name;
-        moduleInstance.route = moduleRoute;
-        moduleInstance.params = moduleMetadata.params;
-        moduleInstance.injector = injector;
+        moduleInstance.route = this._getModuleRoute(moduleParams, parentModule);
+        moduleInstance.params = moduleParams;
+        moduleInstance.injector = new AppInjector(this, this._injector, targetModule);
         moduleInstance.modules = new Array<IModuleInstance>();
         moduleInstance.services = new Array<IServiceInstance>();
         moduleInstance.migrations = new Array<IMigrationInstance>();
         moduleInstance.providers = new Array<IProviderInstance>();
         moduleInstance.controllers = new Array<ControllerInstance>();
+        moduleInstance.middlewares = this._getModuleChain(moduleInstance, parentModule);
 
-        if (moduleMetadata.params !== undefined && moduleMetadata.params.modules !== undefined) {
-            for (const targetSubmodule of moduleMetadata.params.modules) {
-                this._registerModule<T>(targetSubmodule, injector, moduleInstance);
-            }
+        if (moduleParams.services !== undefined) {
+            moduleInstance.injector.declareServices(moduleParams.services);
         }
 
-        if (moduleMetadata.params !== undefined && moduleMetadata.params.services !== undefined) {
-            for (const targetService of moduleMetadata.params.services) {
-                this._registerService(moduleInstance, targetService);
+        this._registering.push(moduleDefinition);
+
+        if (moduleParams.modules !== undefined) {
+            for (const submoduleDefinition of moduleParams.modules) {
+                const submoduleInstance = this._registerModule<T>(submoduleDefinition, moduleInstance);
+
+                moduleInstance.injector.addImport(submoduleInstance.injector);
+                moduleInstance.modules.push(submoduleInstance);
             }
         }
 
-        if (moduleMetadata.params !== undefined && moduleMetadata.params.providers !== undefined) {
-            for (const targetProvider of moduleMetadata.params.providers) {
+        this._registering.pop();
+
+        if (moduleParams.providers !== undefined) {
+            for (const targetProvider of moduleParams.providers) {
                 this._registerProvider(moduleInstance, targetProvider);
             }
         }
 
-        if (moduleMetadata.params !== undefined && moduleMetadata.params.migrations !== undefined) {
-            for (const targetMigration of moduleMetadata.params.migrations) {
+        if (moduleParams.exports !== undefined) {
+            moduleInstance.injector.addExports(moduleParams.exports);
+        }
+
+        if (moduleParams.services !== undefined) {
+            for (const targetService of moduleParams.services) {
+                this._registerService(moduleInstance, targetService);
+            }
+        }
+
+        if (moduleParams.migrations !== undefined) {
+            for (const targetMigration of moduleParams.migrations) {
                 this._registerMigration(moduleInstance, targetMigration);
             }
         }
 
-        if (moduleMetadata.params !== undefined && moduleMetadata.params.controllers !== undefined) {
-            for (const targetController of moduleMetadata.params.controllers) {
+        if (moduleParams.controllers !== undefined) {
+            for (const targetController of moduleParams.controllers) {
                 this._registerController(moduleInstance, targetController);
             }
         }
 
         this._modules.push(moduleInstance);
+
+        return moduleInstance;
+    }
+
+    private _getModuleRoute(moduleParams: IModuleParameters, parentModule?: IModuleInstance): string {
+        const parentRoute = parentModule !== undefined ? parentModule.route : "";
+
+        return moduleParams.route !== undefined ? `${parentRoute}/${moduleParams.route}` : parentRoute;
+    }
+
+    private _checkSharedModule(moduleInstance: IModuleInstance, parentModule?: IModuleInstance): void {
+        // Controllers are mounted once, with the route and middlewares of the first import.
+        const hasControllers = (m: IModuleInstance): boolean => m.controllers.length > 0 || m.modules.some(hasControllers);
+        if (!hasControllers(moduleInstance)) {
+            return;
+        }
+
+        const sameMiddlewares = (first: IActionMiddleware[], second: IActionMiddleware[]): boolean =>
+            first.length === second.length && first.every((m: IActionMiddleware, i: number) =>
+                m.service === second[i].service
+                && m.name === second[i].name
+                && m.params.length === second[i].params.length
+                && m.params.every((param: any, j: number) => param === second[i].params[j])
+            );
+
+        const chain = this._getModuleChain(moduleInstance, parentModule);
+        const sameChain = sameMiddlewares(chain.authentication, moduleInstance.middlewares.authentication)
+                       && sameMiddlewares(chain.authorization, moduleInstance.middlewares.authorization)
+                       && sameMiddlewares(chain.before, moduleInstance.middlewares.before)
+                       && sameMiddlewares(chain.after, moduleInstance.middlewares.after);
+
+        if (!sameChain || this._getModuleRoute(moduleInstance.params, parentModule) !== moduleInstance.route) {
+            throw new Error(util.format(
+                "[ornate] Module %s has controllers and is imported with different routes or middlewares (by %s): import it from a single module",
+                colors.blue(moduleInstance.name),
+                colors.blue(parentModule !== undefined ? parentModule.name : "App")
+            ));
+        }
+    }
+
+    private _describeModule(moduleInstance: IModuleInstance): IGraphModule {
+        const params = moduleInstance.params;
+        const middlewareTypes = new Map<symbol, string>([
+            [MIDDLEWARE_AUTHENTICATION, "authentication"],
+            [MIDDLEWARE_RESOLVER, "resolver"],
+            [MIDDLEWARE_POLICY, "policy"],
+            [MIDDLEWARE_GENERIC, "generic"]
+        ]);
+
+        return {
+            name: moduleInstance.name,
+            route: moduleInstance.route,
+            imports: moduleInstance.modules.map((m: IModuleInstance) => m.name),
+            exports: (params.exports !== undefined ? params.exports : []).map((t: TInjectionToken) => this._injector.getTokenName(t)),
+            services: (params.services !== undefined ? params.services : []).map((targetService: TType<any>) => {
+                const serviceMetadata = AppRegistry.getServiceMetadata(targetService);
+                const middlewares = serviceMetadata !== undefined && serviceMetadata.middlewares !== undefined ? serviceMetadata.middlewares : [];
+
+                return {
+                    name: targetService.name,
+                    lifetime: moduleInstance.injector.getLifetime(targetService),
+                    dependencies: this._describeDependencies(targetService),
+                    middlewares: middlewares.map((m: IMiddlewareMetadata) => ({type: middlewareTypes.get(m.type), name: m.name}))
+                };
+            }),
+            providers: (params.providers !== undefined ? params.providers : []).map((provider: IProviderParameters) => {
+                const type = provider.service !== undefined ? provider.service : provider.useClass;
+                const kind = provider.service !== undefined ? "service"
+                           : provider.useClass !== undefined ? "class"
+                           : provider.useFactory !== undefined ? "factory"
+                           : "value";
+
+                return {
+                    token: this._injector.getTokenName(provider.provides),
+                    kind,
+                    dependencies: type !== undefined
+                        ? this._describeDependencies(type)
+                        : (provider.inject !== undefined ? provider.inject : []).map((t: TInjectionToken) => this._injector.getTokenName(t))
+                };
+            }),
+            migrations: (params.migrations !== undefined ? params.migrations : [])
+                .map((targetMigration: TType<any>) => AppRegistry.getMigrationMetadata(targetMigration).name),
+            controllers: (params.controllers !== undefined ? params.controllers : [])
+                .map((targetController: TType<any>) => this._describeController(moduleInstance, targetController))
+        };
+    }
+
+    private _describeController(moduleInstance: IModuleInstance, targetController: TType<any>): IGraphController {
+        const controllerMetadata = AppRegistry.getControllerMetadata(targetController);
+        const controllerRoute = this._getControllerRoute(moduleInstance, controllerMetadata);
+        const actions = controllerMetadata.actions !== undefined ? controllerMetadata.actions : [];
+
+        const toMiddleware = (m: IActionMiddleware): IGraphMiddleware => ({
+            service: m.service.name,
+            name: m.name
+        });
+
+        const toArgMiddleware = (m: IResourceResolverMetadata | IResourceValidatorMetadata): IGraphArgMiddleware => ({
+            service: m.service.name,
+            name: m.name,
+            index: m.index
+        });
+
+        return {
+            name: controllerMetadata.name,
+            route: controllerRoute,
+            dependencies: this._describeDependencies(targetController),
+            actions: actions.map((actionMetadata: IActionMetadata): IGraphAction => {
+                const chain = this._getActionChain(moduleInstance, actionMetadata);
+                const version = AppRegistry.getActionVersion(actionMetadata.target, actionMetadata.handler);
+
+                return {
+                    name: `${controllerMetadata.name}.${actionMetadata.handler.name}`,
+                    method: actionMetadata.method,
+                    route: this._getActionRoute(controllerRoute, actionMetadata),
+                    ...(version !== undefined ? {version} : {}),
+                    authentication: chain.authentication.map(toMiddleware),
+                    authorization: chain.authorization.map(toMiddleware),
+                    before: chain.before.map(toMiddleware),
+                    after: chain.after.map(toMiddleware),
+                    resolvers: actionMetadata.resolvers.map(toArgMiddleware),
+                    validators: actionMetadata.validators.map(toArgMiddleware)
+                };
+            })
+        };
+    }
+
+    private _describeDependencies<T>(target: TType<T>): string[] {
+        const paramtypes: any[] = Reflect.getOwnMetadata("design:paramtypes", target);
+        const injectables = AppRegistry.getInjectableMetadata(target);
+
+        if (paramtypes === undefined) {
+            return [];
+        }
+
+        // Only services and providers are dependencies (not the injector, server or config).
+        return paramtypes
+            .map((type: any, index: number) => {
+                const injectable = injectables !== undefined ? injectables.find((i) => i.index === index) : undefined;
+                if (injectable === undefined) {
+                    return type !== undefined ? type.name : undefined;
+                }
+
+                switch (injectable.type) {
+                    case EInjectableType.LAZY:
+                        return injectable.ref().name;
+
+                    case EInjectableType.TOKEN:
+                        return this._injector.getTokenName(injectable.token);
+
+                    default:
+                        return undefined;
+                }
+            })
+            .filter((name: string) => name !== undefined);
+    }
+
+    private _getModuleType(moduleDefinition: TModuleDefinition): TType<any> {
+        return typeof moduleDefinition === "function" ? moduleDefinition : moduleDefinition.module;
+    }
+
+    private _getModuleParameters(moduleMetadata: IModuleMetadata, moduleDefinition: TModuleDefinition): IModuleParameters {
+        const params = moduleMetadata.params !== undefined ? moduleMetadata.params : {};
+        if (typeof moduleDefinition === "function") {
+            return params;
+        }
+
+        // Dynamic module definitions extend the static ones.
+        const dynamic: IDynamicModule = moduleDefinition;
+        const merge = <U>(values: U[], dynamicValues: U[]): U[] => [
+            ...(values !== undefined ? values : []),
+            ...(dynamicValues !== undefined ? dynamicValues : [])
+        ];
+
+        return {
+            ...params,
+            route: dynamic.route !== undefined ? dynamic.route : params.route,
+            modules: merge(params.modules, dynamic.modules),
+            services: merge(params.services, dynamic.services),
+            providers: merge(params.providers, dynamic.providers),
+            initialize: merge(params.initialize, dynamic.initialize),
+            migrations: merge(params.migrations, dynamic.migrations),
+            controllers: merge(params.controllers, dynamic.controllers),
+            exports: merge(params.exports, dynamic.exports),
+            authenticate: merge(params.authenticate, dynamic.authenticate),
+            authorize: merge(params.authorize, dynamic.authorize),
+            before: merge(params.before, dynamic.before),
+            after: merge(params.after, dynamic.after)
+        };
     }
 
     private _registerService<T>(
@@ -540,78 +1584,422 @@ export class App {
         }
 
         const serviceInstance = moduleInstance.injector.newService(targetService);
+        const lifetime = moduleInstance.injector.getLifetime(targetService);
 
-        this._logger.debug("[ornate] [%s] %s",
+        this._logger.debug("[ornate] [%s] %s%s",
             colors.blue(moduleInstance.name),
-            colors.magenta(targetService.name)
+            colors.magenta(targetService.name),
+            lifetime !== EServiceLifetime.SINGLETON ? ` (${colors.italic(lifetime)})` : ""
         );
 
-        moduleInstance.services.push(serviceInstance);
+        // Only singletons take part in the application lifecycle.
+        if (lifetime === EServiceLifetime.SINGLETON) {
+            moduleInstance.services.push(serviceInstance);
+        }
+
+        return serviceInstance;
+    }
+
+    private _registerProvider<T>(
+        moduleInstance: IModuleInstance,
+        provider: IProviderParameters
+    ): IProviderInstance {
+
+        const providerInstance: IProviderInstance = {
+            provides: provider.provides,
+            type: provider.service !== undefined ? provider.service : provider.useClass
+        };
+
+        // Service providers are instantiated on demand, with parameters.
+        if (provider.service === undefined) {
+            moduleInstance.injector.newTokenProvider(provider);
+        }
+
+        this._logger.debug("[ornate] [%s] %s [%s: %s]",
+            colors.blue(moduleInstance.name),
+            colors.magenta(this._getProviderName(provider)),
+            colors.italic("provides"),
+            colors.magenta(typeof provider.provides === "function" ? provider.provides.name : provider.provides.toString())
+        );
+
+        moduleInstance.providers.push(providerInstance);
+
+        return providerInstance;
+    }
+
+    private _getProviderName(provider: IProviderParameters): string {
+        if (provider.service !== undefined || provider.useClass !== undefined) {
+            return (provider.service !== undefined ? provider.service : provider.useClass).name;
+        }
+
+        return provider.useFactory !== undefined ? "factory" : "value";
+    }
+
+    private _getSortedMigrations(): string[] {
+        // Migrations are applied by name, whatever the module registration order.
+        return this._injector.getMigrations().sort((a: string, b: string) => a < b ? -1 : a > b ? 1 : 0);
+    }
+
+    private async _runMigration(name: string, direction: "up" | "down"): Promise<void> {
+        const migration = this._injector.getMigration(name);
+
+        try {
+            await migration[direction]();
+
+        } catch (err) {
+            throw new MigrationError(util.format("[ornate] Migration %s failed (%s): %s", name, direction, err.message), {name, direction});
+        }
+    }
+
+    private async _withMigrationLock<T>(func: () => Promise<T>): Promise<T> {
+        await this._migrationStore.lock();
+
+        try {
+            return await func();
+
+        } finally {
+            await this._migrationStore.unlock();
+        }
+    }
+
+    private _registerMigration<T extends IMigrationInstance>(
+        moduleInstance: IModuleInstance,
+        targetMigration: TType<T>
+    ): void {
+        const migrationMetadata = AppRegistry.getMigrationMetadata(targetMigration) as IMigrationMetadata;
+        const migrationInstance = moduleInstance.injector.newMigration(migrationMetadata.name, targetMigration);
+
+        this._logger.debug("[ornate] [%s] %s (%s)",
+            colors.blue(moduleInstance.name),
+            colors.yellow(targetMigration.name),
+            colors.green(migrationMetadata.name)
+        );
+
+        moduleInstance.migrations.push(migrationInstance);
+    }
+
+    private _registerController<T extends ControllerInstance>(
+        moduleInstance: IModuleInstance,
+        targetController: TType<T>
+    ): void {
+        const controllerMetadata = AppRegistry.getControllerMetadata(targetController);
+        const controllerInstance = moduleInstance.injector.newController(targetController);
+
+        controllerInstance.route = this._getControllerRoute(moduleInstance, controllerMetadata);
+        this._logger.debug("[ornate] [%s] %s [%s]",
+            colors.blue(moduleInstance.name),
+            colors.red(controllerMetadata.name),
+            colors.yellow(controllerInstance.route)
+        );
+
+        if (controllerMetadata.actions !== undefined) {
+            for (const action of controllerMetadata.actions) {
+                this._registerAction(moduleInstance, controllerMetadata, controllerInstance, action);
+            }
+        }
+
+        moduleInstance.controllers.push(controllerInstance);
+    }
+
+    private _getControllerRoute(moduleInstance: IModuleInstance, controllerMetadata: IControllerMetadata): string {
+        const controllerRoute = controllerMetadata.route !== undefined ? controllerMetadata.route : "";
+
+        return `${moduleInstance.route}/${controllerRoute}`;
+    }
+
+    private _getActionRoute(controllerRoute: string, actionMetadata: IActionMetadata): string {
+        const route = actionMetadata.route !== "" ? `${controllerRoute}/${actionMetadata.route}` : controllerRoute;
+
+        // Typed parameters add their pattern to the route, unless it already has an inline one.
+        return actionMetadata.args
+            .filter((arg: IResourceArgMetadata) => arg.type === EArgType.PARAM && arg.pattern !== undefined)
+            .reduce((r: string, arg: IResourceArgMetadata) => r.replace(new RegExp(`:${arg.name}(?![\\w(])`), `:${arg.name}(${arg.pattern})`), route);
+    }
+
+    private _getRouteName(route: string): string {
+        // Routes are named without their parameter patterns: "/users/:id(\\d+)" is "/users/:id".
+        let name = "";
+        let depth = 0;
+
+        for (let i = 0; i < route.length; i++) {
+            const c = route[i];
+
+            if (depth === 0) {
+                if (c === "(" && /:\w+$/.test(name)) {
+                    depth++;
+                } else {
+                    name += c;
+                }
+
+            } else if (c === "\\") {
+                i++;
+
+            } else if (c === "(") {
+                depth++;
+
+            } else if (c === ")") {
+                depth--;
+            }
+        }
+
+        return name;
+    }
+
+    private _getModuleChain(moduleInstance: IModuleInstance, parentModule?: IModuleInstance): IActionChain {
+        const params = moduleInstance.params;
+        const parent = parentModule !== undefined ? parentModule.middlewares : {authentication: [], authorization: [], before: [], after: []};
+
+        const toMiddlewares = (references?: IMiddlewareReference[]): IActionMiddleware[] =>
+            (references !== undefined ? references : []).map((reference: IMiddlewareReference) => ({
+                module: moduleInstance,
+                service: reference.service,
+                name: reference.name,
+                params: reference.params !== undefined ? reference.params : []
+            }));
+
+        // Nested modules inherit the middlewares of their parent: outer before first, outer after last.
+        return {
+            authentication: [...parent.authentication, ...toMiddlewares(params.authenticate)],
+            authorization: [...parent.authorization, ...toMiddlewares(params.authorize)],
+            before: [...parent.before, ...toMiddlewares(params.before)],
+            after: [...toMiddlewares(params.after), ...parent.after]
+        };
+    }
+
+    private _getActionChain(moduleInstance: IModuleInstance, actionMetadata: IActionMetadata): IActionChain {
+        const inherited = moduleInstance.middlewares;
+        const controller = AppRegistry.getControllerMiddlewareMetadata(actionMetadata.target);
+        const controllerMetadata = controller !== undefined ? controller : {authentication: [], authorization: [], generics: []};
+
+        const toMiddleware = (m: IActionAuthenticationMetadata | IActionAuthorizationMetadata | IActionGenericMetadata): IActionMiddleware => ({
+            module: moduleInstance,
+            service: m.service,
+            name: m.name,
+            params: m.params
+        });
+
+        const getGenerics = (generics: IActionGenericMetadata[], order: EMiddlewareOrder): IActionMiddleware[] =>
+            generics.filter((m: IActionGenericMetadata) => m.order === order).reverse().map(toMiddleware);
+
+        // Public actions only keep their own authentication and authorization.
+        const isPublic = AppRegistry.isPublicAction(actionMetadata.target, actionMetadata.handler);
+
+        return {
+            authentication: [
+                ...(isPublic ? [] : [...inherited.authentication, ...controllerMetadata.authentication.map(toMiddleware)]),
+                ...actionMetadata.authentication.map(toMiddleware)
+            ],
+            authorization: [
+                ...(isPublic ? [] : [...inherited.authorization, ...controllerMetadata.authorization.map(toMiddleware)]),
+                ...actionMetadata.authorization.map(toMiddleware)
+            ],
+            before: [
+                ...inherited.before,
+                ...getGenerics(controllerMetadata.generics, EMiddlewareOrder.BEFORE),
+                ...getGenerics(actionMetadata.generics, EMiddlewareOrder.BEFORE)
+            ],
+            after: [
+                ...getGenerics(actionMetadata.generics, EMiddlewareOrder.AFTER),
+                ...getGenerics(controllerMetadata.generics, EMiddlewareOrder.AFTER),
+                ...inherited.after
+            ]
+        };
+    }
+
+    private _removeImplicitHeads(): void {
+        // GET routes also answer HEAD requests, unless the route has its own HEAD action.
+        for (const router of [this._koaRouter, ...this._versionRouters.values()]) {
+            const headRoutes = router.stack
+                .filter((layer: KoaRouter.Layer) => layer.methods.length === 1 && layer.methods[0] === ERequestMethod.HEAD)
+                .map((layer: KoaRouter.Layer) => layer.path);
+
+            for (const layer of router.stack) {
+                if (headRoutes.includes(layer.path) && layer.methods.includes(ERequestMethod.GET)) {
+                    layer.methods = layer.methods.filter((method: string) => method !== ERequestMethod.HEAD);
+                }
+            }
+        }
+    }
+
+    private _getVersionKey(): string {
+        if (this._versioning.key !== undefined) {
+            return this._versioning.key;
+        }
+
+        switch (this._versioning.type) {
+            case EVersioningType.URL:
+                return DEFAULT_VERSION_PREFIX;
+
+            case EVersioningType.HEADER:
+                return DEFAULT_VERSION_HEADER;
+
+            default:
+                return DEFAULT_VERSION_PARAMETER;
+        }
+    }
+
+    private _getVersionRouter(version: string): KoaRouter {
+        let router = this._versionRouters.get(version);
+        if (router === undefined) {
+            router = new KoaRouter();
+            this._versionRouters.set(version, router);
+        }
+
+        return router;
+    }
+
+    private _getRequestVersion(context: TAppContext): {version: string, path: string} {
+        const key = this._getVersionKey();
+        let version: string;
+        let path = context.path;
+
+        switch (this._versioning.type) {
+            case EVersioningType.URL: {
+                // Paths merely starting with the prefix are not versioned.
+                const match = new RegExp(`^/${key}([^/]+)(/.*)?$`).exec(context.path);
+                if (match !== null && this._versionRouters.has(match[1])) {
+                    const [, urlVersion, urlPath] = match;
+
+                    version = urlVersion;
+                    path = urlPath !== undefined ? urlPath : "/";
+                }
+                break;
+            }
+
+            case EVersioningType.HEADER:
+                version = context.get(key) || undefined;
+                break;
+
+            case EVersioningType.MEDIA_TYPE: {
+                const match = new RegExp(`;\\s*${key}=([^;,\\s]+)`).exec(context.get("accept"));
+                version = match !== null ? match[1] : undefined;
+                break;
+            }
+        }
+
+        return {
+            version: version !== undefined ? version : this._versioning.defaultVersion,
+            path
+        };
+    }
+
+    private async _routeVersion(context: TAppContext, next: Koa.Next): Promise<void> {
+        const {version, path} = this._getRequestVersion(context);
+
+        const router = version !== undefined ? this._versionRouters.get(version) : undefined;
+        const match = router !== undefined ? router.match(path, context.method) : undefined;
+
+        // Unversioned actions, unless only the version has the path (it answers OPTIONS and 405 itself).
+        if (match === undefined || match.path.length === 0 || (!match.route && this._koaRouter.match(context.path, context.method).route)) {
+            return next();
+        }
+
+        // Versioned routes are matched without the URL version prefix.
+        context.routerPath = path;
+
+        await router.routes()(context, async () => router.allowedMethods()(context, async () => undefined));
+    }
+
+    private _visitMiddlewares(
+        moduleInstance: IModuleInstance,
+        actionMetadata: IActionMetadata,
+        chain: IActionChain,
+        visit: (module: IModuleInstance, type: string, service: TType<any>, name: string, metadata: IMiddlewareMetadata) => void
+    ): void {
+        const visited = new Set<IMiddlewareMetadata>();
+
+        const visitMiddleware = (module: IModuleInstance, type: string, service: TType<any>, name: string, metadata: IMiddlewareMetadata) => {
+            visit(module, type, service, name, metadata);
+
+            if (metadata !== undefined && !visited.has(metadata)) {
+                visited.add(metadata);
+                visitArgs(module, metadata);
+            }
+        };
+
+        // Resolvers and validators, of the action or of its middlewares.
+        const visitArgs = (module: IModuleInstance, metadata: IMiddlewareMetadata | IActionMetadata) => {
+            for (const m of metadata.resolvers) {
+                visitMiddleware(module, "resolver", m.service, m.name, AppRegistry.getResolverMetadata(m.service, m.name));
+            }
+            for (const m of metadata.validators) {
+                visitMiddleware(module, "validator policy", m.service, m.name, AppRegistry.getPolicyMetadata(m.service, m.name));
+            }
+        };
 
-        return serviceInstance;
+        for (const m of chain.authentication) {
+            visitMiddleware(m.module, "authentication", m.service, m.name, AppRegistry.getAuthenticationMetadata(m.service, m.name));
+        }
+        for (const m of chain.authorization) {
+            visitMiddleware(m.module, "policy", m.service, m.name, AppRegistry.getPolicyMetadata(m.service, m.name));
+        }
+        for (const m of [...chain.before, ...chain.after]) {
+            visitMiddleware(m.module, "generic", m.service, m.name, AppRegistry.getGenericMetadata(m.service, m.name));
+        }
+
+        visitArgs(moduleInstance, actionMetadata);
     }
 
-    private _registerProvider<T>(
-        moduleInstance: IModuleInstance,
-        provider: IProviderParameters
-    ): IProviderInstance {
+    private _checkMiddlewares(route: IRouteEntry): void {
+        const reasons = new Set<string>();
 
-        const providerInstance: IProviderInstance = {
-            provides: provider.provides,
-            type: provider.service
+        const checkCookies = (metadata: IMiddlewareMetadata | IActionMetadata) => {
+            if (this._koaApp.keys === undefined) {
+                metadata.args
+                    .filter((arg: IResourceArgMetadata) => arg.type === EArgType.COOKIE && arg.signed)
+                    .forEach((arg: IResourceArgMetadata) => reasons.add(util.format("signed cookie %s but no cookie keys configured", arg.name)));
+            }
         };
 
-        this._logger.debug("[ornate] [%s] %s [%s: %s]",
-            colors.blue(moduleInstance.name),
-            colors.magenta(provider.service.name),
-            colors.italic("provides"),
-            colors.magenta(provider.provides)
-    );
-
-        moduleInstance.providers.push(providerInstance);
+        checkCookies(route.metadata);
 
-        return providerInstance;
-    }
+        this._visitMiddlewares(route.module, route.metadata, route.chain, (module, type, service, name, metadata) => {
+            if (metadata === undefined) {
+                reasons.add(util.format("unknown %s: %s.%s", type, service.name, name));
+            } else {
+                checkCookies(metadata);
+            }
 
-    private _registerMigration<T extends IMigrationInstance>(
-        moduleInstance: IModuleInstance,
-        targetMigration: TType<T>
-    ): void {
-        const migrationMetadata = AppRegistry.getMigrationMetadata(targetMigration) as IMigrationMetadata;
-        const migrationInstance = moduleInstance.injector.newMigration(migrationMetadata.name, targetMigration);
+            if (!this._injector.hasService(service)) {
+                reasons.add(util.format("service not registered in any module: %s", service.name));
 
-        this._logger.debug("[ornate] [%s] %s (%s)",
-            colors.blue(moduleInstance.name),
-            colors.yellow(targetMigration.name),
-            colors.green(migrationMetadata.name)
-        );
+            } else if (!module.injector.hasService(service)) {
+                reasons.add(util.format("service not visible from module %s: %s", module.name, service.name));
+            }
+        });
 
-        moduleInstance.migrations.push(migrationInstance);
+        reasons.forEach((reason: string) => this._failures.push({action: route.action, reason}));
     }
 
-    private _registerController<T extends ControllerInstance>(
-        moduleInstance: IModuleInstance,
-        targetController: TType<T>
-    ): void {
-        const controllerMetadata = AppRegistry.getControllerMetadata(targetController);
-        const controllerInstance = moduleInstance.injector.newController(targetController);
+    private _checkRoutes(): void {
+        // Parameter names don't matter to tell two routes apart.
+        const normalize = (path: string) => path.replace(/:\w+/g, ":");
 
-        const controllerRoute = controllerMetadata.route !== undefined ? controllerMetadata.route : "";
+        const routes = this._routes.filter((route: IRouteEntry) => route.layer !== undefined);
 
-        controllerInstance.route = `${moduleInstance.route}/${controllerRoute}`;
-        this._logger.debug("[ornate] [%s] %s [%s]",
-            colors.blue(moduleInstance.name),
-            colors.red(controllerMetadata.name),
-            colors.yellow(controllerInstance.route)
-        );
+        routes.forEach((route: IRouteEntry, index: number) => {
+            // Versions have their own routes.
+            for (const previous of routes.slice(0, index).filter((r: IRouteEntry) => r.version === route.version)) {
+                const methods = route.layer.methods.filter((m: string) => previous.layer.methods.includes(m));
+                if (methods.length === 0) {
+                    continue;
+                }
 
-        if (controllerMetadata.actions !== undefined) {
-            for (const action of controllerMetadata.actions) {
-                this._registerAction(moduleInstance, controllerMetadata, controllerInstance, action);
-            }
-        }
+                const method = methods.find((m: string) => m !== ERequestMethod.HEAD) || ERequestMethod.HEAD;
 
-        moduleInstance.controllers.push(controllerInstance);
+                const reason = normalize(route.layer.path) === normalize(previous.layer.path)
+                             ? util.format("%s %s collides with %s", method, route.layer.path, previous.action)
+                             : previous.layer.regexp.test(route.layer.path)
+                             ? util.format("%s %s is shadowed by %s (%s)", method, route.layer.path, previous.action, previous.layer.path)
+                             : undefined;
+
+                // The first conflict of a route is enough.
+                if (reason !== undefined) {
+                    this._failures.push({action: route.action, reason});
+                    break;
+                }
+            }
+        });
     }
 
     private _registerAction(
@@ -620,15 +2008,42 @@ export class App {
         controllerInstance: ControllerInstance,
         actionMetadata: IActionMetadata
     ): void {
-        const actionRoute = actionMetadata.route !== "" ? `${controllerInstance.route}/${actionMetadata.route}` : controllerInstance.route;
+        const actionRoute = this._getActionRoute(controllerInstance.route, actionMetadata);
+        const routeName = this._getRouteName(actionRoute);
 
         const actionName = `${controllerMetadata.name}.${actionMetadata.handler.name}`;
 
+        const chain = this._getActionChain(moduleInstance, actionMetadata);
+        const version = AppRegistry.getActionVersion(actionMetadata.target, actionMetadata.handler);
+        const route: IRouteEntry = {action: actionName, version, module: moduleInstance, metadata: actionMetadata, chain};
+
+        this._routes.push(route);
+
+        if (version !== undefined && this._versioning === undefined) {
+            this._failures.push({action: actionName, reason: util.format("version %s but no versioning configured", version)});
+            return;
+        }
+
+        const produces = AppRegistry.getActionProduces(actionMetadata.target, actionMetadata.handler) || [];
+        for (const mediaType of produces.filter((m: string) => !this._serializers.has(m))) {
+            this._failures.push({action: actionName, reason: util.format("produces %s but no serializer registered", mediaType)});
+        }
+
+        // Unknown middlewares are reported once every action is registered.
+        let unknown = false;
+        this._visitMiddlewares(moduleInstance, actionMetadata, chain, (module, type, service, name, metadata) => {
+            unknown = unknown || metadata === undefined;
+        });
+
+        if (unknown) {
+            return;
+        }
+
         const initialise = this._initialiseAction.bind(this, actionMetadata, actionName, actionRoute);
-        const authenticationHandlers = this._bindAuthentication(moduleInstance, actionMetadata);
-        const authorizationHandlers = this._bindAuthorization(moduleInstance, actionMetadata);
-        const beforeHandlers = this._bindGenerics(moduleInstance, actionMetadata, EMiddlewareOrder.BEFORE);
-        const afterHandlers = this._bindGenerics(moduleInstance, actionMetadata, EMiddlewareOrder.AFTER);
+        const authenticationHandlers = this._bindAuthentication(chain.authentication);
+        const authorizationHandlers = this._bindAuthorization(chain.authorization);
+        const beforeHandlers = this._bindGenerics(chain.before);
+        const afterHandlers = this._bindGenerics(chain.after);
         const actionHandler = this._bindAction(moduleInstance, actionMetadata, actionName, controllerInstance);
 
         const handlers: KoaRouter.Middleware[] = [
@@ -637,37 +2052,56 @@ export class App {
             ...authorizationHandlers,
             ...beforeHandlers,
             actionHandler,
-            ...afterHandlers
+            ...afterHandlers,
+            // The first matching route handles the request: later ones (like a less constrained route) don't run.
+            async () => undefined
         ];
 
+        const router = version !== undefined ? this._getVersionRouter(version) : this._koaRouter;
+
         switch (actionMetadata.method) {
             case ERequestMethod.GET:
-                this._koaRouter.get(actionRoute, actionRoute, ...handlers);
+                router.get(routeName, actionRoute, ...handlers);
                 break;
 
             case ERequestMethod.PUT:
-                this._koaRouter.put(actionRoute, actionRoute, ...handlers);
+                router.put(routeName, actionRoute, ...handlers);
                 break;
 
             case ERequestMethod.POST:
-                this._koaRouter.post(actionRoute, actionRoute, ...handlers);
+                router.post(routeName, actionRoute, ...handlers);
                 break;
 
             case ERequestMethod.DELETE:
-                this._koaRouter.delete(actionRoute, actionRoute, ...handlers);
+                router.delete(routeName, actionRoute, ...handlers);
+                break;
+
+            case ERequestMethod.PATCH:
+                router.patch(routeName, actionRoute, ...handlers);
+                break;
+
+            case ERequestMethod.HEAD:
+                router.head(routeName, actionRoute, ...handlers);
+                break;
+
+            case ERequestMethod.OPTIONS:
+                router.options(routeName, actionRoute, ...handlers);
                 break;
 
             default:
                 throw new Error(`[ornate] Unhandled request method: ${actionMetadata.method}`);
         }
 
-        const authentication = actionMetadata.authentication.map((m: IActionAuthenticationMetadata) => colors.white(m.name));
-        const authorization = actionMetadata.authorization.map((m: IActionAuthorizationMetadata) => colors.white(m.name));
+        route.layer = router.stack[router.stack.length - 1];
+
+        const authentication = chain.authentication.map((m: IActionMiddleware) => colors.white(m.name));
+        const authorization = chain.authorization.map((m: IActionMiddleware) => colors.white(m.name));
 
-        this._logger.debug("[ornate] [%s] [%s %s] %s",
+        this._logger.debug("[ornate] [%s] [%s %s]%s %s",
             colors.cyan(actionName),
             colors.italic(actionMetadata.method.toLowerCase()),
             colors.yellow(actionRoute),
+            version !== undefined ? ` [v${version}]` : "",
             [...authentication, ...authorization].join(" · "),
         );
     }
@@ -679,15 +2113,17 @@ export class App {
         context: TAppContext,
         next: Koa.Next
     ): Promise<void> {
+        const scope = this._injector.newScope();
+
         try {
-            context.method = actionMetadata.method;
+            // The request method is kept (HEAD for GET actions), so the response body is dropped.
             context.route = actionRoute;
 
             context.state = {
                 authentication: new Map<string, any>()
             };
 
-            await next();
+            await this._injector.runInScope(scope, next);
 
         } catch (err) {
             const code = err.code || httpStatus.INTERNAL_SERVER_ERROR;
@@ -707,15 +2143,31 @@ export class App {
                 console.error(err);
             }
 
+            // Send validation failures to the client, to map them on its fields.
+            if (err instanceof ValidationError) {
+                context.status = code;
+                context.body = {message: err.message, failures: err.data};
+                return;
+            }
+
             context.throw(code, err.message, err.data);
+
+        } finally {
+            const destroyScope = (): Promise<void> => this._injector.destroyScope(scope).catch((err: Error) => {
+                this._logger.error("[ornate] [%s] Error destroying request services: %s", colors.cyan(actionName), colors.red(err.message));
+            });
+
+            // Stream bodies still use the request services until the response is over.
+            if (context.body instanceof Stream) {
+                context.res.once("close", destroyScope);
+            } else {
+                await destroyScope();
+            }
         }
     }
 
-    private _bindAuthentication(
-        moduleInstance: IModuleInstance,
-        actionMetadata: IActionMetadata
-    ): KoaRouter.Middleware[] {
-        return actionMetadata.authentication.map((authentication: IActionAuthenticationMetadata) => {
+    private _bindAuthentication(middlewares: IActionMiddleware[]): KoaRouter.Middleware[] {
+        return middlewares.map((authentication: IActionMiddleware) => {
 
             const middleware = AppRegistry.getAuthenticationMetadata(authentication.service, authentication.name);
             if (middleware === undefined) {
@@ -728,7 +2180,7 @@ export class App {
 
             return async (context: TAppContext, next: Koa.Next) => {
                 // Execute middleware.
-                const result = await this._handleMiddleware<boolean>(moduleInstance, middleware, authentication.params, context);
+                const result = await this._handleMiddleware<boolean>(authentication.module, middleware, authentication.params, context);
 
                 if (!result) {
                     throw new AuthenticationError(util.format(
@@ -743,11 +2195,8 @@ export class App {
         });
     }
 
-    private _bindAuthorization(
-        moduleInstance: IModuleInstance,
-        actionMetadata: IActionMetadata
-    ): KoaRouter.Middleware[] {
-        return actionMetadata.authorization.map((authorization: IActionAuthorizationMetadata) => {
+    private _bindAuthorization(middlewares: IActionMiddleware[]): KoaRouter.Middleware[] {
+        return middlewares.map((authorization: IActionMiddleware) => {
 
             const middleware = AppRegistry.getPolicyMetadata(authorization.service, authorization.name);
             if (middleware === undefined) {
@@ -760,7 +2209,7 @@ export class App {
 
             return async (context: TAppContext, next: Koa.Next) => {
                 // Execute middleware.
-                const result = await this._handleMiddleware<boolean>(moduleInstance, middleware, authorization.params, context);
+                const result = await this._handleMiddleware<boolean>(authorization.module, middleware, authorization.params, context);
 
                 if (!result) {
                     throw new AuthorizationError(util.format(
@@ -775,14 +2224,8 @@ export class App {
         });
     }
 
-    private _bindGenerics(
-        moduleInstance: IModuleInstance,
-        actionMetadata: IActionMetadata,
-        order: EMiddlewareOrder
-    ): KoaRouter.Middleware[] {
-        return actionMetadata.generics.filter((m: IActionGenericMetadata) => m.order === order)
-            .reverse()
-            .map((generic: IActionGenericMetadata) => {
+    private _bindGenerics(middlewares: IActionMiddleware[]): KoaRouter.Middleware[] {
+        return middlewares.map((generic: IActionMiddleware) => {
             const middleware = AppRegistry.getGenericMetadata(generic.service, generic.name);
             if (middleware === undefined) {
                 throw new Error(util.format(
@@ -794,7 +2237,7 @@ export class App {
 
             return async (context: TAppContext, next: Koa.Next) => {
                 // Execute middleware.
-                await this._handleMiddleware(moduleInstance, middleware, generic.params, context);
+                await this._handleMiddleware(generic.module, middleware, generic.params, context);
 
                 // Continue with next.
                 await next();
@@ -824,7 +2267,7 @@ export class App {
         const handler = metadata.handler.bind(instance);
 
         // Handle middleware arguments.
-        const args = this._handleContextArgs(context, metadata.args);
+        const args = await this._handleContextArgs(context, metadata.args);
 
         // Handle middleware resolves.
         await this._handleResourceResolvers(
@@ -852,8 +2295,14 @@ export class App {
         context: TAppContext,
         next: Koa.Next
     ): Promise<void> {
+        // Reject unacceptable requests before the action has any side effect.
+        const produces = AppRegistry.getActionProduces(metadata.target, metadata.handler);
+        if (produces !== undefined) {
+            this._negotiateMediaType(context, produces);
+        }
+
         // Handle action arguments.
-        const args = this._handleContextArgs(context, metadata.args);
+        const args = await this._handleContextArgs(context, metadata.args);
         const keys = this._handleRequestArgs(context, metadata.args, args);
 
         // Report unhandled keys.
@@ -878,27 +2327,65 @@ export class App {
         // Execute action.
         const result = await handler(...args) as ActionResponse<any>;
 
-        if (result.status === httpStatus.MOVED_TEMPORARILY) {
+        if (result === undefined) {
+            return next();
+        }
+
+        // Set status (after the redirect, which sets its own).
+        if (result.type === EResponseType.REDIRECT) {
             context.redirect(result.data);
         }
 
-        // Set status.
         context.status = result.status;
 
         // Set direct response headers.
-        if (result !== undefined && result.headers !== undefined) {
+        if (result.headers !== undefined) {
             Object.keys(result.headers).map((key) => {
                 context.set(key, result.headers[key]);
             });
         }
 
-        if (result === undefined || result.data === undefined) {
+        // Set (or clear) response cookies, unsigned unless asked (Koa signs them all when keys are set).
+        for (const cookie of result.cookies) {
+            if (cookie.options.signed === true && this._koaApp.keys === undefined) {
+                throw new Error(util.format("[ornate] Cannot sign cookie %s: no cookie keys configured", cookie.name));
+            }
+
+            context.cookies.set(cookie.name, cookie.value, {...cookie.options, signed: cookie.options.signed === true});
+        }
+
+        // Statuses like 204 never have a body, nor a content type.
+        if (EMPTY_STATUSES.includes(result.status)) {
+            context.remove("Content-Type");
+            context.remove("Content-Length");
+            return next();
+        }
+
+        if (result.type === EResponseType.NULL || result.type === EResponseType.REDIRECT || result.data === undefined) {
             // Return now.
             return next();
         }
 
+        // Shape entities: excluded, exposed, renamed and transformed fields, for the groups of the action.
+        const data = result.type === EResponseType.JSON || result.type === EResponseType.DATA
+                   ? this._serialize(result.data, AppRegistry.getActionGroups(metadata.target, metadata.handler) || [])
+                   : result.data;
+
         // Send data.
         switch (result.type) {
+            case EResponseType.DATA: {
+                const mediaType = this._negotiateMediaType(
+                    context,
+                    produces !== undefined ? produces : Array.from(this._serializers.keys())
+                );
+
+                context.vary("Accept");
+                context.response.type = mediaType;
+                context.response.body = this._serializers.get(mediaType).serialize(data);
+
+                return next();
+            }
+
             case EResponseType.RAW:
                 context.response.type = "application/octet-stream";
                 break;
@@ -910,14 +2397,74 @@ export class App {
             case EResponseType.JSON:
                 context.response.type = "application/json";
                 break;
+
+            // Koa pipes the stream (with backpressure), and destroys it once the response finishes or the client disconnects.
+            case EResponseType.STREAM: {
+                const { contentType, length } = result as StreamResponse;
+
+                context.response.type = contentType;
+                if (length !== undefined) {
+                    context.response.length = length;
+                }
+
+                // Koa reads the body after the action: keep reading it within the request scope.
+                const stream = data as Readable;
+                stream._read = AsyncResource.bind(stream._read.bind(stream));
+
+                // Headers are already sent when the source fails, so only ending the response tells the client.
+                stream.once("error", (err: Error) => {
+                    this._logger.error("[ornate] [%s] Stream failed: %s", colors.cyan(actionName), colors.red(err.message));
+                    context.res.destroy(err);
+                });
+                break;
+            }
         }
 
-        context.response.body = result.data;
+        context.response.body = data;
 
         await next();
     }
 
-    private _handleContextArgs(context: TAppContext, argsMetadata: IResourceArgMetadata[]): any[] {
+    private _serialize(value: any, groups: string[]): any {
+        if (Array.isArray(value)) {
+            return value.map((item: any) => this._serialize(item, groups));
+        }
+
+        // Values serializing themselves (like dates and buffers) are kept.
+        if (typeof value !== "object" || value === null || typeof value.toJSON === "function") {
+            return value;
+        }
+
+        const fields = typeof value.constructor === "function" ? AppRegistry.getSerializationFields(value.constructor) || [] : [];
+
+        // Exposed getters are serialized as well as own properties.
+        const keys = new Set([
+            ...Object.keys(value),
+            ...fields.filter((f: ISerializationFieldMetadata) => f.groups !== undefined).map((f: ISerializationFieldMetadata) => f.name)
+        ]);
+
+        const shaped: {[key: string]: any} = {};
+
+        for (const key of keys) {
+            const field = fields.find((f: ISerializationFieldMetadata) => f.name === key);
+            if (field === undefined) {
+                shaped[key] = this._serialize(value[key], groups);
+                continue;
+            }
+
+            const hidden = field.groups !== undefined && field.groups.length > 0 && !field.groups.some((g: string) => groups.includes(g));
+            if (field.exclude || hidden) {
+                continue;
+            }
+
+            const fieldValue = field.transform !== undefined ? field.transform(value[key], value) : value[key];
+            shaped[field.rename !== undefined ? field.rename : key] = this._serialize(fieldValue, groups);
+        }
+
+        return shaped;
+    }
+
+    private async _handleContextArgs(context: TAppContext, argsMetadata: IResourceArgMetadata[]): Promise<any[]> {
         const args = new Array<any>();
 
         const contextKey = argsMetadata.find((am: IResourceArgMetadata) => am.type === EArgType.CONTEXT);
@@ -949,26 +2496,239 @@ export class App {
         }
 
         this._handleRequestSource(context.headers, headerKeys, args);
+        this._handleRequestCookies(context, argsMetadata, args);
+
+        // Custom arguments, in parameter order.
+        for (const argMetadata of argsMetadata.filter((am: IResourceArgMetadata) => am.type === EArgType.CUSTOM)) {
+            args[argMetadata.index] = await argMetadata.extractor(context, argMetadata.data);
+        }
 
         return args;
     }
 
+    private _handleRequestCookies(context: TAppContext, argsMetadata: IResourceArgMetadata[], args: any[]): void {
+        const cookieKeys = argsMetadata.filter((am: IResourceArgMetadata) => am.type === EArgType.COOKIE);
+
+        // Signed cookies without a valid signature are missing.
+        for (const argMetadata of cookieKeys) {
+            const source = {[argMetadata.name]: context.cookies.get(argMetadata.name, {signed: argMetadata.signed})};
+
+            this._handleRequestSource(source, [argMetadata], args);
+        }
+    }
+
     private _handleRequestArgs(context: TAppContext, argsMetadata: IResourceArgMetadata[], args: any[]): IHandledKeys {
         const paramKeys = argsMetadata.filter((am: IResourceArgMetadata) => am.type === EArgType.PARAM);
         const queryKeys = argsMetadata.filter((am: IResourceArgMetadata) => am.type === EArgType.QUERY);
-        const bodyKeys = argsMetadata.filter((am: IResourceArgMetadata) => am.type === EArgType.BODY);
+        const bodyKeys = argsMetadata.filter((am: IResourceArgMetadata) => am.type === EArgType.BODY && am.name !== undefined);
+        const wholeBodyKeys = argsMetadata.filter((am: IResourceArgMetadata) => am.type === EArgType.BODY && am.name === undefined);
 
         const handledParamKeys = this._handleRequestSource(context.params, paramKeys, args);
         const handledQueryKeys = this._handleRequestSource(context.query, queryKeys, args);
         const handledBodyKeys = this._handleRequestSource((context.request as any).body, bodyKeys, args);
+        const handledWholeBodyKeys = this._handleRequestBody((context.request as any).body, wholeBodyKeys, args);
+
+        this._handleRequestFiles((context.request as any).files || {}, argsMetadata, args);
 
         return {
             params: handledParamKeys,
             query: handledQueryKeys,
-            body: handledBodyKeys
+            body: [...handledBodyKeys, ...handledWholeBodyKeys]
         };
     }
 
+    private _handleRequestBody(body: {[key: string]: any}, argsMetadata: IResourceArgMetadata[], args: any[]): string[] {
+        const keys = new Array<string>();
+
+        for (const argMetadata of argsMetadata) {
+            const { type, unknown = EUnknownFields.ALLOW } = argMetadata.coercion;
+
+            const fields = typeof type === "function" ? AppRegistry.getDtoFields(type) : undefined;
+            if (fields === undefined) {
+                args[argMetadata.index] = body;
+                keys.push(...Object.keys(body));
+                continue;
+            }
+
+            const failures = new Array<IValidationFailure>();
+
+            args[argMetadata.index] = this._validateDto(type, fields, body, "", unknown, failures);
+
+            if (failures.length > 0) {
+                throw new ValidationError(util.format(
+                    "[ornate] Invalid body: %s",
+                    failures.map((f: IValidationFailure) => `${f.path} (${f.reason})`).join(", ")
+                ), failures);
+            }
+
+            // Allowed unknown fields are still reported.
+            keys.push(...(unknown === EUnknownFields.ALLOW ? fields.map((f: IDtoFieldMetadata) => f.name) : Object.keys(body)));
+        }
+
+        return keys;
+    }
+
+    private _handleRequestFiles(source: {[key: string]: any}, argsMetadata: IResourceArgMetadata[], args: any[]): void {
+        const fileKeys = argsMetadata.filter((am: IResourceArgMetadata) => am.type === EArgType.FILE || am.type === EArgType.FILES);
+
+        for (const argMetadata of fileKeys) {
+            const limits = argMetadata.limits;
+            const files: UploadedFile[] = [].concat(source[argMetadata.name] || [])
+                .map((f: any) => new UploadedFile(f.name, f.size, f.type, f.path));
+
+            if (argMetadata.required && files.length === 0) {
+                throw new ParameterError(util.format("[ornate] Required %s argument not found: %s", argMetadata.type, argMetadata.name));
+            }
+
+            const maxCount = argMetadata.type === EArgType.FILE ? 1 : limits.maxCount;
+            if (maxCount !== undefined && files.length > maxCount) {
+                throw new ParameterError(util.format(
+                    "[ornate] Too many files for %s argument: %s (expected at most %d, got: %d)",
+                    argMetadata.type,
+                    argMetadata.name,
+                    maxCount,
+                    files.length
+                ));
+            }
+
+            for (const file of files) {
+                if (limits.maxSize !== undefined && file.size > limits.maxSize) {
+                    throw new ParameterError(util.format(
+                        "[ornate] File too large for %s argument: %s (expected at most %d bytes, got: %d)",
+                        argMetadata.type,
+                        argMetadata.name,
+                        limits.maxSize,
+                        file.size
+                    ));
+                }
+
+                if (limits.types !== undefined && !limits.types.some((type: string) => this._matchesMimeType(file.type, type))) {
+                    throw new ParameterError(util.format(
+                        "[ornate] Invalid file type for %s argument: %s (expected %s, got: %s)",
+                        argMetadata.type,
+                        argMetadata.name,
+                        limits.types.join(", "),
+                        file.type
+                    ));
+                }
+            }
+
+            args[argMetadata.index] = argMetadata.type === EArgType.FILE ? files[0] : files;
+        }
+    }
+
+    private _matchesMimeType(mimeType: string, allowed: string): boolean {
+        // Wildcard subtypes, like "image/*".
+        return allowed.endsWith("/*") ? mimeType.startsWith(allowed.slice(0, -1)) : mimeType === allowed;
+    }
+
+    private _validateDto(
+        type: TType<any>,
+        fields: IDtoFieldMetadata[],
+        raw: any,
+        path: string,
+        unknown: EUnknownFields,
+        failures: IValidationFailure[]
+    ): any {
+        if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+            failures.push({path, reason: "expected object"});
+            return undefined;
+        }
+
+        const dto = Object.create(type.prototype);
+
+        for (const field of fields) {
+            const fieldPath = path !== "" ? `${path}.${field.name}` : field.name;
+            const value = raw[field.name];
+
+            if (value === undefined || value === null) {
+                if (field.optional !== true) {
+                    failures.push({path: fieldPath, reason: "required"});
+                }
+
+                continue;
+            }
+
+            dto[field.name] = field.type === Array
+                ? this._validateArray(field, value, fieldPath, unknown, failures)
+                : this._validateValue(field, field.type, value, fieldPath, unknown, failures);
+        }
+
+        for (const key of Object.keys(raw).filter((k: string) => !fields.some((f: IDtoFieldMetadata) => f.name === k))) {
+            if (unknown === EUnknownFields.REJECT) {
+                failures.push({path: path !== "" ? `${path}.${key}` : key, reason: "unknown field"});
+
+            } else if (unknown === EUnknownFields.ALLOW) {
+                dto[key] = raw[key];
+            }
+        }
+
+        return dto;
+    }
+
+    private _validateArray(field: IDtoFieldMetadata, raw: any, path: string, unknown: EUnknownFields, failures: IValidationFailure[]): any[] {
+        if (!Array.isArray(raw)) {
+            failures.push({path, reason: "expected array"});
+            return undefined;
+        }
+
+        this._validateLength(field, raw.length, "items", path, failures);
+
+        // Length applies to the array, the other constraints to its items.
+        const itemField = {...field, minLength: undefined as number, maxLength: undefined as number};
+
+        return raw.map((item: any, index: number) => this._validateValue(itemField, field.items, item, `${path}[${index}]`, unknown, failures));
+    }
+
+    private _validateValue(
+        field: IDtoFieldMetadata,
+        type: any,
+        raw: any,
+        path: string,
+        unknown: EUnknownFields,
+        failures: IValidationFailure[]
+    ): any {
+        // Nested DTOs are validated with their own fields.
+        const fields = typeof type === "function" ? AppRegistry.getDtoFields(type) : undefined;
+        if (fields !== undefined) {
+            return this._validateDto(type, fields, raw, path, unknown, failures);
+        }
+
+        const value = this._coerceValue(raw, type, field.enum);
+        if (value === undefined) {
+            failures.push({path, reason: util.format("expected %s", this._getCoercionType(type, field.enum))});
+            return undefined;
+        }
+
+        if (typeof value === "string") {
+            this._validateLength(field, value.length, "characters", path, failures);
+
+            if (field.pattern !== undefined && !field.pattern.test(value)) {
+                failures.push({path, reason: util.format("expected to match %s", field.pattern)});
+            }
+        }
+
+        if (typeof value === "number") {
+            if (field.min !== undefined && value < field.min) {
+                failures.push({path, reason: util.format("expected at least %d", field.min)});
+            }
+            if (field.max !== undefined && value > field.max) {
+                failures.push({path, reason: util.format("expected at most %d", field.max)});
+            }
+        }
+
+        return value;
+    }
+
+    private _validateLength(field: IDtoFieldMetadata, length: number, unit: string, path: string, failures: IValidationFailure[]): void {
+        if (field.minLength !== undefined && length < field.minLength) {
+            failures.push({path, reason: util.format("expected at least %d %s", field.minLength, unit)});
+        }
+        if (field.maxLength !== undefined && length > field.maxLength) {
+            failures.push({path, reason: util.format("expected at most %d %s", field.maxLength, unit)});
+        }
+    }
+
     private async _handleResourceResolvers(
         moduleInstance: IModuleInstance,
         metadata: IMiddlewareMetadata | IActionMetadata,
@@ -1039,7 +2799,7 @@ export class App {
                 throw new ParameterError(util.format("[ornate] Required %s argument not found: %s", argMetadata.type, argMetadata.name));
             }
 
-            args[argMetadata.index] = source[argMetadata.name];
+            args[argMetadata.index] = this._coerceArg(argMetadata, source[argMetadata.name]);
 
             keys.push(argMetadata.name);
         }
@@ -1047,6 +2807,105 @@ export class App {
         return keys;
     }
 
+    private _coerceArg(argMetadata: IResourceArgMetadata, raw: any): any {
+        const coercion = argMetadata.coercion;
+        if (raw === undefined || coercion === undefined) {
+            return raw;
+        }
+
+        if (coercion.type === Array) {
+            const items = (Array.isArray(raw) ? raw : [raw]).map((item: any) => this._coerceValue(item, coercion.items, coercion.enum));
+            if (items.includes(undefined)) {
+                throw this._getCoercionError(argMetadata, raw, `array of ${this._getCoercionType(coercion.items, coercion.enum)}`);
+            }
+
+            return items;
+        }
+
+        // Repeated keys (like ?page=1&page=2) only fit array arguments.
+        if (Array.isArray(raw) && (coercion.enum !== undefined || SCALAR_TYPES.includes(coercion.type))) {
+            throw this._getCoercionError(argMetadata, raw, `a single ${this._getCoercionType(coercion.type, coercion.enum)}`);
+        }
+
+        const value = this._coerceValue(raw, coercion.type, coercion.enum);
+        if (value === undefined) {
+            throw this._getCoercionError(argMetadata, raw, this._getCoercionType(coercion.type, coercion.enum));
+        }
+
+        return value;
+    }
+
+    private _coerceValue(raw: any, type: any, values?: object): any {
+        if (values !== undefined) {
+            return this._getEnumValues(values).find((value: any) => String(value) === String(raw));
+        }
+
+        switch (type) {
+            case Number: {
+                const value = typeof raw === "number" ? raw : typeof raw === "string" && raw.trim() !== "" ? Number(raw) : NaN;
+                return isFinite(value) ? value : undefined;
+            }
+
+            case Boolean: {
+                if (typeof raw === "boolean") {
+                    return raw;
+                }
+
+                const value = String(raw).toLowerCase();
+                return TRUE_VALUES.includes(value) ? true : FALSE_VALUES.includes(value) ? false : undefined;
+            }
+
+            case Date: {
+                const value = raw instanceof Date ? raw : typeof raw === "string" || typeof raw === "number" ? new Date(raw) : undefined;
+                return value !== undefined && !isNaN(value.getTime()) ? value : undefined;
+            }
+
+            case String:
+                return typeof raw === "object" ? undefined : String(raw);
+
+            default:
+                return raw;
+        }
+    }
+
+    private _getCoercionType(type: any, values?: object): string {
+        if (values !== undefined) {
+            return util.format("one of %s", JSON.stringify(this._getEnumValues(values)));
+        }
+
+        return type !== undefined ? type.name.toLowerCase() : "value";
+    }
+
+    private _getEnumValues(values: object): any[] {
+        // Skip the reverse mappings of numeric enums.
+        return Object.keys(values)
+            .filter((key: string) => isNaN(Number(key)))
+            .map((key: string) => (values as any)[key]);
+    }
+
+    private _getCoercionError(argMetadata: IResourceArgMetadata, raw: any, expected: string): ParameterError {
+        return new ParameterError(util.format(
+            "[ornate] Invalid %s argument: %s (expected %s, got: %s)",
+            argMetadata.type,
+            argMetadata.name,
+            expected,
+            JSON.stringify(raw)
+        ));
+    }
+
+    private _negotiateMediaType(context: TAppContext, mediaTypes: string[]): string {
+        // The first offered media type when the request accepts anything.
+        const mediaType = context.accepts(mediaTypes) as string | false;
+        if (mediaType === false) {
+            throw new NotAcceptableError(util.format(
+                "[ornate] Not acceptable, available media types: %s",
+                mediaTypes.join(", ")
+            ), mediaTypes);
+        }
+
+        return mediaType;
+    }
+
     private _reportUnhandledKeys(action: string, keys: IHandledKeys, context: TAppContext): void {
         const paramsKeys = Object.keys(context.params).filter((key) => keys.params.indexOf(key) === -1);
         const queryKeys = Object.keys(context.query).filter((key) => keys.query.indexOf(key) === -1);
@@ -0,0 +1,214 @@
+import * as fs from "fs";
+import * as path from "path";
+import * as util from "util";
+
+import { ConfigError, IConfigFailure } from "./errors";
+
+const DOTENV_LINE = /^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*)?\s*$/;
+
+const TRUE_VALUES = ["true", "1", "yes", "on"];
+const FALSE_VALUES = ["false", "0", "no", "off"];
+
+export const enum EConfigType {
+    STRING = "string",
+    NUMBER = "number",
+    BOOLEAN = "boolean",
+    JSON = "json"
+}
+
+export interface IConfigKey {
+    readonly type?: EConfigType;
+    readonly env?: string;
+    readonly default?: any;
+    readonly required?: boolean;
+    readonly choices?: any[];
+}
+
+export interface IConfigSchema {
+    readonly [key: string]: IConfigKey;
+}
+
+export interface IConfigParams {
+    readonly schema: IConfigSchema;
+    readonly files?: string[];
+    readonly env?: boolean;
+}
+
+interface IConfigSource {
+    // Values by schema key (JSON files).
+    readonly keys: Map<string, any>;
+    // Values by environment variable name (.env files and process environment).
+    readonly env: Map<string, string>;
+}
+
+export class AppConfig {
+
+    private _schema: IConfigSchema;
+    private _values: Map<string, any>;
+
+    constructor(params: IConfigParams) {
+        this._schema = params.schema;
+        this._values = new Map<string, any>();
+
+        const sources = (params.files !== undefined ? params.files : []).map((file: string) => this._loadFile(file));
+
+        if (params.env !== false) {
+            sources.push({
+                keys: new Map<string, any>(),
+                env: new Map<string, string>(Object.entries(process.env))
+            });
+        }
+
+        this._validate(sources);
+    }
+
+    public has(key: string): boolean {
+        return this._schema[key] !== undefined;
+    }
+
+    public get<T>(key: string): T {
+        if (!this.has(key)) {
+            throw new Error(util.format("[ornate] Config key not declared in schema: %s", key));
+        }
+        return this._values.get(key);
+    }
+
+    private _loadFile(file: string): IConfigSource {
+        const source: IConfigSource = {
+            keys: new Map<string, any>(),
+            env: new Map<string, string>()
+        };
+
+        // Missing files are skipped, like a missing .env file.
+        if (!fs.existsSync(file)) {
+            return source;
+        }
+
+        const content = fs.readFileSync(file, "utf-8");
+
+        if (path.extname(file) === ".json") {
+            this._flatten(JSON.parse(content), "", source.keys);
+
+        } else {
+            for (const line of content.split(/\r?\n/)) {
+                const match = DOTENV_LINE.exec(line);
+                if (match !== null) {
+                    const [, name, value] = match;
+                    source.env.set(name, this._unquote(value !== undefined ? value.trim() : ""));
+                }
+            }
+        }
+
+        return source;
+    }
+
+    private _flatten(obj: {[key: string]: any}, prefix: string, keys: Map<string, any>): void {
+        for (const [key, value] of Object.entries(obj)) {
+            const name = prefix !== "" ? `${prefix}.${key}` : key;
+
+            keys.set(name, value);
+
+            if (value !== null && typeof value === "object" && !Array.isArray(value)) {
+                this._flatten(value, name, keys);
+            }
+        }
+    }
+
+    private _unquote(value: string): string {
+        if (value.length > 1 && value.startsWith("\"") && value.endsWith("\"")) {
+            return value.slice(1, -1).replace(/\\n/g, "\n");
+        }
+
+        if (value.length > 1 && value.startsWith("'") && value.endsWith("'")) {
+            return value.slice(1, -1);
+        }
+
+        // Strip inline comments of unquoted values.
+        const comment = value.indexOf(" #");
+        return comment !== -1 ? value.slice(0, comment).trim() : value;
+    }
+
+    private _validate(sources: IConfigSource[]): void {
+        const failures = new Array<IConfigFailure>();
+
+        for (const key of Object.keys(this._schema)) {
+            const definition = this._schema[key];
+            const env = definition.env !== undefined ? definition.env : key.replace(/\./g, "_").toUpperCase();
+
+            // Later sources override earlier ones.
+            let raw: any;
+            for (const source of sources) {
+                if (source.keys.has(key)) {
+                    raw = source.keys.get(key);
+                }
+                if (source.env.has(env)) {
+                    raw = source.env.get(env);
+                }
+            }
+
+            if (raw === undefined || raw === "") {
+                if (definition.default !== undefined) {
+                    this._values.set(key, definition.default);
+
+                } else if (definition.required !== false) {
+                    failures.push({key, reason: util.format("missing (set %s)", env)});
+                }
+
+                continue;
+            }
+
+            const type = definition.type !== undefined ? definition.type : EConfigType.STRING;
+            const value = this._coerce(raw, type);
+
+            if (value === undefined) {
+                failures.push({key, reason: util.format("expected %s, got: %s", type, JSON.stringify(raw))});
+
+            } else if (definition.choices !== undefined && !definition.choices.includes(value)) {
+                failures.push({key, reason: util.format("expected one of %s, got: %s", JSON.stringify(definition.choices), JSON.stringify(raw))});
+
+            } else {
+                this._values.set(key, value);
+            }
+        }
+
+        if (failures.length > 0) {
+            throw new ConfigError(util.format(
+                "[ornate] Invalid configuration: %s",
+                failures.map((f: IConfigFailure) => `${f.key} (${f.reason})`).join(", ")
+            ), failures);
+        }
+    }
+
+    private _coerce(raw: any, type: EConfigType): any {
+        switch (type) {
+            case EConfigType.NUMBER: {
+                const value = typeof raw === "number" ? raw : Number(raw);
+                return typeof raw !== "boolean" && !isNaN(value) ? value : undefined;
+            }
+
+            case EConfigType.BOOLEAN: {
+                if (typeof raw === "boolean") {
+                    return raw;
+                }
+
+                const value = String(raw).toLowerCase();
+                return TRUE_VALUES.includes(value) ? true : FALSE_VALUES.includes(value) ? false : undefined;
+            }
+
+            case EConfigType.JSON:
+                if (typeof raw !== "string") {
+                    return raw;
+                }
+
+                try {
+                    return JSON.parse(raw);
+                } catch (err) {
+                    return undefined;
+                }
+
+            default:
+                return typeof raw === "object" ? undefined : String(raw);
+        }
+    }
+
+}
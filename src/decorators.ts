@@ -1,20 +1,29 @@
 import "reflect-metadata";
+import KoaRouter from "@koa/router";
 import { ActionResponse } from "./responses";
+import { IFileOptions, IFilesOptions } from "./files";
 
 const MODULE = Symbol("app:module");
 const SERVICE = Symbol("app:service");
 const MIGRATION = Symbol("app:migration");
 const CONTROLLER = Symbol("app:controller");
 const MIDDLEWARES = Symbol("app:middlewares");
-const MIDDLEWARE_AUTHENTICATION = Symbol("app:middleware:authentication");
-const MIDDLEWARE_RESOLVER = Symbol("app:middleware:resolver");
-const MIDDLEWARE_POLICY = Symbol("app:middleware:policies");
-const MIDDLEWARE_GENERIC = Symbol("app:middleware:generic");
+export const MIDDLEWARE_AUTHENTICATION = Symbol("app:middleware:authentication");
+export const MIDDLEWARE_RESOLVER = Symbol("app:middleware:resolver");
+export const MIDDLEWARE_POLICY = Symbol("app:middleware:policies");
+export const MIDDLEWARE_GENERIC = Symbol("app:middleware:generic");
 const ACTIONS = Symbol("controller:actions");
+const CONTROLLER_MIDDLEWARES = Symbol("controller:middlewares");
+const ACTION_PUBLIC = Symbol("action:public");
+const VERSION = Symbol("app:version");
+const PRODUCES = Symbol("app:produces");
 const RESOURCE_ARG = Symbol("resource:args");
 const RESOURCE_RESOLVER = Symbol("resource:resolver");
 const RESOURCE_VALIDATOR = Symbol("resource:validator");
 const RESOURCE_INJECTABLE = Symbol("resource:injectable");
+const DTO_FIELDS = Symbol("dto:fields");
+const SERIALIZATION_FIELDS = Symbol("serialization:fields");
+const SERIALIZATION_GROUPS = Symbol("serialization:groups");
 
 interface ISuiteDefinition<T> {
     readonly Type: TType<T>;
@@ -79,7 +88,11 @@ export const enum EArgType {
     ROUTE = "route",
     BODY = "body",
     PARAM = "param",
-    QUERY = "query"
+    QUERY = "query",
+    FILE = "file",
+    FILES = "files",
+    COOKIE = "cookie",
+    CUSTOM = "custom"
 }
 
 export const enum ERequestMethod {
@@ -92,39 +105,104 @@ export const enum ERequestMethod {
     PATCH = "PATCH"
 }
 
+export const enum EServiceLifetime {
+    SINGLETON = "singleton",
+    REQUEST = "request",
+    TRANSIENT = "transient"
+}
+
 export const enum EInjectableType {
     INJECTOR = 0,
-    HTTP_SERVER = 1
+    HTTP_SERVER = 1,
+    LAZY = 2,
+    TOKEN = 3,
+    CONFIG = 4
+}
+
+export const enum EUnknownFields {
+    ALLOW = "allow",
+    STRIP = "strip",
+    REJECT = "reject"
 }
 
+export type TParamType = "int" | "number" | "uuid" | "alpha";
+
+// Route patterns of typed parameters (no capturing groups).
+const PARAM_PATTERNS: {[type: string]: string} = {
+    int: "\\d+",
+    number: "\\d+(?:\\.\\d+)?",
+    uuid: "[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12}",
+    alpha: "[a-zA-Z]+"
+};
+
 export const VALID_REQUEST_METHODS = [
     ERequestMethod.GET,
     ERequestMethod.POST,
     ERequestMethod.PUT,
-    ERequestMethod.DELETE
+    ERequestMethod.DELETE,
+    ERequestMethod.PATCH,
+    ERequestMethod.HEAD,
+    ERequestMethod.OPTIONS
 ];
 
 export type TMiddlewareHandler<T> = (...args: any[]) => Promise<T>;
 
 export type TActionHandler<T> = (...args: any[]) => Promise<ActionResponse<T>>;
 
+export type TArgExtractor<T, D> = (context: KoaRouter.RouterContext, data: D) => T | Promise<T>;
+
 export type TType<T> = new (...args: any[]) => T;
 
+export type TTypeRef<T> = () => TType<T>;
+
+export type TAbstractType<T> = abstract new (...args: any[]) => T;
+
+export type TInjectionToken = string | symbol | TAbstractType<any>;
+
+export type TProviderFactory<T> = (...args: any[]) => T | Promise<T>;
+
 export interface IProviderParameters {
-    readonly provides: any;
+    readonly provides: TInjectionToken;
+    readonly service?: TType<any>;
+    readonly useClass?: TType<any>;
+    readonly useValue?: any;
+    readonly useFactory?: TProviderFactory<any>;
+    readonly inject?: TInjectionToken[];
+}
+
+export interface IMiddlewareReference {
     readonly service: TType<any>;
+    readonly name: string;
+    readonly params?: any[];
+}
+
+export interface IServiceParameters {
+    readonly lifetime?: EServiceLifetime;
 }
 
 export interface IModuleParameters {
     readonly route?: string;
-    readonly modules?: TType<any>[];
+    readonly modules?: TModuleDefinition[];
     readonly services?: TType<any>[];
     readonly providers?: IProviderParameters[];
+    /** @deprecated Every service is initialized. */
     readonly initialize?: TType<any>[];
     readonly migrations?: TType<any>[];
     readonly controllers?: TType<any>[];
+    readonly exports?: TInjectionToken[];
+    // Middlewares of every action in the module and its nested modules.
+    readonly authenticate?: IMiddlewareReference[];
+    readonly authorize?: IMiddlewareReference[];
+    readonly before?: IMiddlewareReference[];
+    readonly after?: IMiddlewareReference[];
+}
+
+export interface IDynamicModule extends IModuleParameters {
+    readonly module: TType<any>;
 }
 
+export type TModuleDefinition = TType<any> | IDynamicModule;
+
 export interface IModuleMetadata {
     readonly name: string;
     readonly params: IModuleParameters;
@@ -132,6 +210,7 @@ export interface IModuleMetadata {
 
 export interface IServiceMetadata {
     readonly name: string;
+    readonly lifetime: EServiceLifetime;
     readonly middlewares: IMiddlewareMetadata[];
 }
 
@@ -142,6 +221,9 @@ export interface IMigrationMetadata {
 export interface IInjectableMetadata {
     readonly type: EInjectableType;
     readonly index: number;
+    readonly ref?: TTypeRef<any>;
+    readonly token?: TInjectionToken;
+    readonly key?: string;
 }
 
 export interface IProviderMetadata {
@@ -155,6 +237,12 @@ export interface IControllerMetadata {
     readonly actions: IActionMetadata[];
 }
 
+export interface IControllerMiddlewareMetadata {
+    readonly authentication: IActionAuthenticationMetadata[];
+    readonly authorization: IActionAuthorizationMetadata[];
+    readonly generics: IActionGenericMetadata[];
+}
+
 export interface IActionAuthenticationMetadata {
     readonly service: TType<any>;
     readonly name: string;
@@ -174,13 +262,83 @@ export interface IActionGenericMetadata {
     readonly params: any[];
 }
 
-export interface IResourceArgMetadata {
+export interface IArgOptions {
+    readonly required?: boolean;
+    // Enum the argument must be a value of.
+    readonly enum?: object;
+    // Type of the items of an array argument.
+    readonly items?: TType<any>;
+}
+
+export interface IBodyOptions {
+    // What to do with body fields the DTO doesn't declare (default: allow).
+    readonly unknown?: EUnknownFields;
+}
+
+export interface IFieldOptions {
+    readonly optional?: boolean;
+    // Overrides the declared type of the field.
+    readonly type?: TType<any>;
+    readonly enum?: object;
+    // Type of the items of an array field.
+    readonly items?: TType<any>;
+}
+
+export interface IDtoFieldMetadata extends IFieldOptions {
+    readonly name: string;
+    readonly minLength?: number;
+    readonly maxLength?: number;
+    readonly min?: number;
+    readonly max?: number;
+    readonly pattern?: RegExp;
+}
+
+export interface ICookieArgOptions extends IArgOptions {
+    // Verifies the signature of the cookie (see IAppParams.cookies).
+    readonly signed?: boolean;
+}
+
+export interface ISerializationFieldMetadata {
+    readonly name: string;
+    readonly exclude?: boolean;
+    // Serialized only for actions with one of these groups (an empty list always serializes, like getters).
+    readonly groups?: string[];
+    readonly rename?: string;
+    readonly transform?: (value: any, object: any) => any;
+}
+
+export interface IParamOptions extends IArgOptions {
+    readonly type?: TParamType;
+    // Route pattern the parameter must match, instead of the one of its type.
+    readonly pattern?: string;
+}
+
+export interface IResourceArgOptions {
+    readonly pattern?: string;
+    readonly coercion?: IResourceArgCoercion;
+    readonly limits?: IFilesOptions;
+    readonly signed?: boolean;
+    readonly extractor?: TArgExtractor<any, any>;
+    // Data given to the custom decorator, passed to its extractor.
+    readonly data?: any;
+}
+
+export interface IResourceArgMetadata extends IResourceArgOptions {
     readonly type: EArgType;
     readonly index: number;
+    // Undefined for the whole body.
     readonly name: string;
     readonly required: boolean;
 }
 
+export interface IResourceArgCoercion {
+    // Declared type of the argument (design:paramtypes).
+    readonly type: any;
+    readonly enum?: object;
+    readonly items?: TType<any>;
+    readonly unknown?: EUnknownFields;
+}
+
 export interface IResourceResolverMetadata {
     readonly service: TType<any>;
     readonly index: number;
@@ -223,9 +381,9 @@ export function Module(params?: IModuleParameters) {
     };
 }
 
-export function Service() {
+export function Service(params?: IServiceParameters) {
     return <T>(target: TType<T>): void => {
-        AppRegistry.defineService(target);
+        AppRegistry.defineService(target, params);
     };
 }
 
@@ -289,27 +447,87 @@ export function Delete(route: string) {
     };
 }
 
-export function Authenticate<T>(service: TType<T>, name: string, ...params: any[]) {
+export function Patch(route: string) {
     return (target: any, handler: string, descriptor: PropertyDescriptor): void => {
-        AppRegistry.defineActionAuthentication(target.constructor, service, name, params, descriptor.value);
+        AppRegistry.defineAction(target.constructor, ERequestMethod.PATCH, route, descriptor.value);
     };
 }
 
-export function Authorize<T>(service: TType<T>, name: string, ...params: any[]) {
+export function Head(route: string) {
     return (target: any, handler: string, descriptor: PropertyDescriptor): void => {
-        AppRegistry.defineActionAuthorization(target.constructor, service, name, params, descriptor.value);
+        AppRegistry.defineAction(target.constructor, ERequestMethod.HEAD, route, descriptor.value);
     };
 }
 
-export function Before<T>(service: TType<T>, name: string, ...params: any[]) {
+export function Options(route: string) {
     return (target: any, handler: string, descriptor: PropertyDescriptor): void => {
-        AppRegistry.defineActionGeneric(target.constructor, EMiddlewareOrder.BEFORE, service, name, params, descriptor.value);
+        AppRegistry.defineAction(target.constructor, ERequestMethod.OPTIONS, route, descriptor.value);
+    };
+}
+
+export function Authenticate<T>(service: TType<T>, name: string, ...params: any[]) {
+    return (target: any, handler?: string, descriptor?: PropertyDescriptor): void => {
+        if (descriptor === undefined) {
+            AppRegistry.defineControllerAuthentication(target, service, name, params);
+        } else {
+            AppRegistry.defineActionAuthentication(target.constructor, service, name, params, descriptor.value);
+        }
+    };
+}
+
+export function Authorize<T>(service: TType<T>, name: string, ...params: any[]) {
+    return (target: any, handler?: string, descriptor?: PropertyDescriptor): void => {
+        if (descriptor === undefined) {
+            AppRegistry.defineControllerAuthorization(target, service, name, params);
+        } else {
+            AppRegistry.defineActionAuthorization(target.constructor, service, name, params, descriptor.value);
+        }
+    };
+}
+
+export function Before<T>(service: TType<T>, name: string, ...params: any[]) {
+    return (target: any, handler?: string, descriptor?: PropertyDescriptor): void => {
+        if (descriptor === undefined) {
+            AppRegistry.defineControllerGeneric(target, EMiddlewareOrder.BEFORE, service, name, params);
+        } else {
+            AppRegistry.defineActionGeneric(target.constructor, EMiddlewareOrder.BEFORE, service, name, params, descriptor.value);
+        }
     };
 }
 
 export function After<T>(service: TType<T>, name: string, ...params: any[]) {
+    return (target: any, handler?: string, descriptor?: PropertyDescriptor): void => {
+        if (descriptor === undefined) {
+            AppRegistry.defineControllerGeneric(target, EMiddlewareOrder.AFTER, service, name, params);
+        } else {
+            AppRegistry.defineActionGeneric(target.constructor, EMiddlewareOrder.AFTER, service, name, params, descriptor.value);
+        }
+    };
+}
+
+export function Version(version: string) {
+    return (target: any, handler?: string, descriptor?: PropertyDescriptor): void => {
+        if (descriptor === undefined) {
+            AppRegistry.defineControllerVersion(target, version);
+        } else {
+            AppRegistry.defineActionVersion(target.constructor, handler, version);
+        }
+    };
+}
+
+export function Produces(...mediaTypes: string[]) {
+    return (target: any, handler?: string, descriptor?: PropertyDescriptor): void => {
+        if (descriptor === undefined) {
+            AppRegistry.defineControllerProduces(target, mediaTypes);
+        } else {
+            AppRegistry.defineActionProduces(target.constructor, handler, mediaTypes);
+        }
+    };
+}
+
+export function Public() {
     return (target: any, handler: string, descriptor: PropertyDescriptor): void => {
-        AppRegistry.defineActionGeneric(target.constructor, EMiddlewareOrder.AFTER, service, name, params, descriptor.value);
+        AppRegistry.defineActionPublic(target.constructor, handler);
     };
 }
 
@@ -337,9 +555,35 @@ export function Hostname() {
     };
 }
 
-export function Header(name: string, required?: boolean) {
+export function Header(name: string, options?: boolean | IArgOptions) {
+    const params = getArgOptions(options);
+
+    return (target: any, handler: string, index: number): void => {
+        AppRegistry.defineResourceArg(
+            target.constructor, EArgType.HEADER, handler, index, name.toLowerCase(), params.required === true,
+            {coercion: getArgCoercion(target, handler, index, params)}
+        );
+    };
+}
+
+// Id of the last event a reconnecting event stream client received.
+export function LastEventId() {
+    return (target: any, handler: string, index: number): void => {
+        AppRegistry.defineResourceArg(
+            target.constructor, EArgType.HEADER, handler, index, "last-event-id", false,
+            {coercion: getArgCoercion(target, handler, index, {})}
+        );
+    };
+}
+
+export function Cookie(name: string, options?: boolean | ICookieArgOptions) {
+    const params: ICookieArgOptions = getArgOptions(options);
+
     return (target: any, handler: string, index: number): void => {
-        AppRegistry.defineResourceArg(target.constructor, EArgType.HEADER, handler, index, name.toLowerCase(), required === true);
+        AppRegistry.defineResourceArg(
+            target.constructor, EArgType.COOKIE, handler, index, name, params.required === true,
+            {signed: params.signed === true, coercion: getArgCoercion(target, handler, index, params)}
+        );
     };
 }
 
@@ -355,21 +599,146 @@ export function Route() {
     };
 }
 
-export function Body(name: string, required?: boolean) {
+export function Body(options?: IBodyOptions): (target: any, handler: string, index: number) => void;
+export function Body(name: string, options?: boolean | IArgOptions): (target: any, handler: string, index: number) => void;
+export function Body(name?: string | IBodyOptions, options?: boolean | IArgOptions) {
+    // Without a name, the whole body is bound (and validated, for DTO classes).
+    if (typeof name !== "string") {
+        const unknown = name !== undefined ? name.unknown : undefined;
+
+        return (target: any, handler: string, index: number): void => {
+            AppRegistry.defineResourceArg(
+                target.constructor, EArgType.BODY, handler, index, undefined, false,
+                {coercion: {...getArgCoercion(target, handler, index, {}), unknown}}
+            );
+        };
+    }
+
+    const params = getArgOptions(options);
+
     return (target: any, handler: string, index: number): void => {
-        AppRegistry.defineResourceArg(target.constructor, EArgType.BODY, handler, index, name, required === true);
+        AppRegistry.defineResourceArg(
+            target.constructor, EArgType.BODY, handler, index, name, params.required === true,
+            {coercion: getArgCoercion(target, handler, index, params)}
+        );
     };
 }
 
-export function Param(name: string, required?: boolean) {
+export function Param(name: string, options?: boolean | IParamOptions) {
+    const params: IParamOptions = getArgOptions(options);
+    const pattern = params.pattern !== undefined ? params.pattern : PARAM_PATTERNS[params.type];
+
     return (target: any, handler: string, index: number): void => {
-        AppRegistry.defineResourceArg(target.constructor, EArgType.PARAM, handler, index, name, required === true);
+        AppRegistry.defineResourceArg(
+            target.constructor, EArgType.PARAM, handler, index, name, params.required === true,
+            {pattern, coercion: getArgCoercion(target, handler, index, params)}
+        );
     };
 }
 
-export function Query(name: string, required?: boolean) {
+export function Query(name: string, options?: boolean | IArgOptions) {
+    const params = getArgOptions(options);
+
     return (target: any, handler: string, index: number): void => {
-        AppRegistry.defineResourceArg(target.constructor, EArgType.QUERY, handler, index, name, required === true);
+        AppRegistry.defineResourceArg(
+            target.constructor, EArgType.QUERY, handler, index, name, params.required === true,
+            {coercion: getArgCoercion(target, handler, index, params)}
+        );
+    };
+}
+
+export function Field(options?: IFieldOptions) {
+    return (target: any, property: string): void => {
+        AppRegistry.defineDtoField(target, property, {...options});
+    };
+}
+
+export function Length(min: number, max?: number) {
+    return (target: any, property: string): void => {
+        AppRegistry.defineDtoField(target, property, {minLength: min, maxLength: max});
+    };
+}
+
+export function Range(min: number, max?: number) {
+    return (target: any, property: string): void => {
+        AppRegistry.defineDtoField(target, property, {min, max});
+    };
+}
+
+export function Pattern(pattern: RegExp) {
+    return (target: any, property: string): void => {
+        AppRegistry.defineDtoField(target, property, {pattern});
+    };
+}
+
+export function Exclude() {
+    return (target: any, property: string): void => {
+        AppRegistry.defineSerializationField(target, property, {exclude: true});
+    };
+}
+
+export function Expose(...groups: string[]) {
+    return (target: any, property: string): void => {
+        AppRegistry.defineSerializationField(target, property, {groups});
+    };
+}
+
+export function Rename(name: string) {
+    return (target: any, property: string): void => {
+        AppRegistry.defineSerializationField(target, property, {rename: name});
+    };
+}
+
+export function Transform(transform: (value: any, object: any) => any) {
+    return (target: any, property: string): void => {
+        AppRegistry.defineSerializationField(target, property, {transform});
+    };
+}
+
+export function Groups(...groups: string[]) {
+    return (target: any, handler?: string, descriptor?: PropertyDescriptor): void => {
+        if (descriptor === undefined) {
+            AppRegistry.defineControllerGroups(target, groups);
+        } else {
+            AppRegistry.defineActionGroups(target.constructor, handler, groups);
+        }
+    };
+}
+
+function getArgOptions(options?: boolean | IArgOptions): IArgOptions {
+    return typeof options === "object" ? options : {required: options};
+}
+
+function getArgCoercion(target: any, handler: string, index: number, options: IArgOptions): IResourceArgCoercion {
+    const paramtypes: any[] = Reflect.getMetadata("design:paramtypes", target, handler);
+
+    return {
+        type: paramtypes !== undefined ? paramtypes[index] : undefined,
+        enum: options.enum,
+        items: options.items
+    };
+}
+
+export function File(name: string, options?: boolean | IFileOptions) {
+    const params: IFileOptions = typeof options === "object" ? options : {required: options};
+
+    return (target: any, handler: string, index: number): void => {
+        AppRegistry.defineResourceArg(target.constructor, EArgType.FILE, handler, index, name, params.required === true, {limits: params});
+    };
+}
+
+export function Files(name: string, options?: boolean | IFilesOptions) {
+    const params: IFilesOptions = typeof options === "object" ? options : {required: options};
+
+    return (target: any, handler: string, index: number): void => {
+        AppRegistry.defineResourceArg(target.constructor, EArgType.FILES, handler, index, name, params.required === true, {limits: params});
+    };
+}
+
+// Defines a parameter decorator, valued by its extractor from the request context.
+export function createParamDecorator<T, D = undefined>(extractor: TArgExtractor<T, D>) {
+    return (data?: D) => (target: any, handler: string, index: number): void => {
+        AppRegistry.defineResourceArg(target.constructor, EArgType.CUSTOM, handler, index, extractor.name, false, {extractor, data});
     };
 }
 
@@ -397,6 +766,24 @@ export function HttpServer() {
     };
 }
 
+export function Config(key?: string) {
+    return (target: any, handler: string, index: number): void => {
+        AppRegistry.defineResourceInjectable(target, EInjectableType.CONFIG, index, undefined, undefined, key);
+    };
+}
+
+export function Lazy<T>(ref: TTypeRef<T>) {
+    return (target: any, handler: string, index: number): void => {
+        AppRegistry.defineResourceInjectable(target, EInjectableType.LAZY, index, ref);
+    };
+}
+
+export function Inject(token: TInjectionToken) {
+    return (target: any, handler: string, index: number): void => {
+        AppRegistry.defineResourceInjectable(target, EInjectableType.TOKEN, index, undefined, token);
+    };
+}
+
 export function ServiceStub<T>(RealType: TType<T>) {
     return <U>(StubType: TType<U>): void => {
         TestRegistry.declareServiceStub(RealType, StubType);
@@ -469,11 +856,12 @@ export class AppRegistry {
         Reflect.defineMetadata(MODULE, metadata, targetModule);
     }
 
-    public static defineService<T>(targetService: TType<T>): void {
+    public static defineService<T>(targetService: TType<T>, params?: IServiceParameters): void {
         const middlewares = Reflect.getMetadata(MIDDLEWARES, targetService) as IMiddlewareMetadata[];
 
         const metadata: IServiceMetadata = {
             name: targetService.name,
+            lifetime: params !== undefined && params.lifetime !== undefined ? params.lifetime : EServiceLifetime.SINGLETON,
             middlewares
         };
 
@@ -607,13 +995,65 @@ export class AppRegistry {
         });
     }
 
+    public static defineControllerAuthentication<T>(targetController: TType<any>, service: TType<T>, name: string, params: any[]): void {
+        this._getControllerMiddlewares(targetController).authentication.unshift({
+            service,
+            name,
+            params
+        });
+    }
+
+    public static defineControllerAuthorization<T>(targetController: TType<any>, service: TType<T>, name: string, params: any[]): void {
+        this._getControllerMiddlewares(targetController).authorization.unshift({
+            service,
+            name,
+            params
+        });
+    }
+
+    public static defineControllerGeneric<T>(
+        targetController: TType<any>,
+        order: EMiddlewareOrder,
+        service: TType<T>,
+        name: string,
+        params: any[]
+    ): void {
+        this._getControllerMiddlewares(targetController).generics.unshift({
+            service,
+            order,
+            name,
+            params
+        });
+    }
+
+    public static defineControllerVersion(targetController: TType<any>, version: string): void {
+        Reflect.defineMetadata(VERSION, version, targetController);
+    }
+
+    public static defineActionVersion(targetController: TType<any>, handler: string, version: string): void {
+        Reflect.defineMetadata(VERSION, version, targetController, handler);
+    }
+
+    public static defineControllerProduces(targetController: TType<any>, mediaTypes: string[]): void {
+        Reflect.defineMetadata(PRODUCES, mediaTypes, targetController);
+    }
+
+    public static defineActionProduces(targetController: TType<any>, handler: string, mediaTypes: string[]): void {
+        Reflect.defineMetadata(PRODUCES, mediaTypes, targetController, handler);
+    }
+
+    public static defineActionPublic(targetController: TType<any>, handler: string): void {
+        Reflect.defineMetadata(ACTION_PUBLIC, true, targetController, handler);
+    }
+
     public static defineResourceArg(
         target: TType<any>,
         type: EArgType,
         handler: string,
         index: number,
         name: string,
-        required: boolean
+        required: boolean,
+        options?: IResourceArgOptions
     ): void {
         let args = Reflect.getMetadata(RESOURCE_ARG, target, handler);
         if (args === undefined) {
@@ -625,7 +1065,8 @@ export class AppRegistry {
             type,
             index,
             name,
-            required
+            required,
+            ...options
         });
     }
 
@@ -671,7 +1112,14 @@ export class AppRegistry {
         });
     }
 
-    public static defineResourceInjectable(target: TType<any>, type: EInjectableType, index: number): void {
+    public static defineResourceInjectable(
+        target: TType<any>,
+        type: EInjectableType,
+        index: number,
+        ref?: TTypeRef<any>,
+        token?: TInjectionToken,
+        key?: string
+    ): void {
         let injectables = Reflect.getMetadata(RESOURCE_INJECTABLE, target);
         if (injectables === undefined) {
             injectables = new Array<IProviderMetadata>();
@@ -680,10 +1128,74 @@ export class AppRegistry {
 
         injectables.push({
             type,
-            index
+            index,
+            ref,
+            token,
+            key
         });
     }
 
+    public static defineDtoField(target: any, name: string, constraints: Partial<IDtoFieldMetadata>): void {
+        // Copy the inherited fields, so subclasses don't add theirs to the parent DTO.
+        let fields: IDtoFieldMetadata[] = Reflect.getOwnMetadata(DTO_FIELDS, target.constructor);
+        if (fields === undefined) {
+            fields = [...(Reflect.getMetadata(DTO_FIELDS, target.constructor) || [])];
+            Reflect.defineMetadata(DTO_FIELDS, fields, target.constructor);
+        }
+
+        const index = fields.findIndex((f: IDtoFieldMetadata) => f.name === name);
+        const field = index !== -1 ? fields[index] : {name, type: Reflect.getMetadata("design:type", target, name)};
+
+        // Undefined constraints (like the max of Range(1)) don't replace the field ones.
+        const defined = Object.keys(constraints)
+            .filter((key: string) => (constraints as any)[key] !== undefined)
+            .reduce((c: any, key: string) => ({...c, [key]: (constraints as any)[key]}), {});
+
+        if (index !== -1) {
+            fields[index] = {...field, ...defined};
+        } else {
+            fields.push({...field, ...defined});
+        }
+    }
+
+    public static defineSerializationField(target: any, name: string, options: Partial<ISerializationFieldMetadata>): void {
+        // Copy the inherited fields, so subclasses don't add theirs to the parent class.
+        let fields: ISerializationFieldMetadata[] = Reflect.getOwnMetadata(SERIALIZATION_FIELDS, target.constructor);
+        if (fields === undefined) {
+            fields = [...(Reflect.getMetadata(SERIALIZATION_FIELDS, target.constructor) || [])];
+            Reflect.defineMetadata(SERIALIZATION_FIELDS, fields, target.constructor);
+        }
+
+        const index = fields.findIndex((f: ISerializationFieldMetadata) => f.name === name);
+        if (index !== -1) {
+            fields[index] = {...fields[index], ...options};
+        } else {
+            fields.push({name, ...options});
+        }
+    }
+
+    public static getSerializationFields<T>(target: TType<T>): ISerializationFieldMetadata[] {
+        return Reflect.getMetadata(SERIALIZATION_FIELDS, target);
+    }
+
+    public static defineControllerGroups(targetController: TType<any>, groups: string[]): void {
+        Reflect.defineMetadata(SERIALIZATION_GROUPS, groups, targetController);
+    }
+
+    public static defineActionGroups(targetController: TType<any>, handler: string, groups: string[]): void {
+        Reflect.defineMetadata(SERIALIZATION_GROUPS, groups, targetController, handler);
+    }
+
+    public static getActionGroups<T>(targetController: TType<T>, handler: TActionHandler<any>): string[] {
+        // The action groups override the controller ones.
+        const groups = Reflect.getMetadata(SERIALIZATION_GROUPS, targetController, handler.name);
+        return groups !== undefined ? groups : Reflect.getOwnMetadata(SERIALIZATION_GROUPS, targetController);
+    }
+
+    public static getDtoFields<T>(targetDto: TType<T>): IDtoFieldMetadata[] {
+        return Reflect.getMetadata(DTO_FIELDS, targetDto);
+    }
+
     public static getInjectableMetadata<T>(targetService: TType<T>): IInjectableMetadata[] {
         return Reflect.getMetadata(RESOURCE_INJECTABLE, targetService);
     }
@@ -704,6 +1216,26 @@ export class AppRegistry {
         return Reflect.getMetadata(CONTROLLER, injectedController) as IControllerMetadata;
     }
 
+    public static getControllerMiddlewareMetadata<T>(targetController: TType<T>): IControllerMiddlewareMetadata {
+        return Reflect.getOwnMetadata(CONTROLLER_MIDDLEWARES, targetController);
+    }
+
+    public static getActionVersion<T>(targetController: TType<T>, handler: TActionHandler<any>): string {
+        // The action version overrides the controller one.
+        const version = Reflect.getMetadata(VERSION, targetController, handler.name);
+        return version !== undefined ? version : Reflect.getOwnMetadata(VERSION, targetController);
+    }
+
+    public static getActionProduces<T>(targetController: TType<T>, handler: TActionHandler<any>): string[] {
+        // The action media types override the controller ones.
+        const mediaTypes = Reflect.getMetadata(PRODUCES, targetController, handler.name);
+        return mediaTypes !== undefined ? mediaTypes : Reflect.getOwnMetadata(PRODUCES, targetController);
+    }
+
+    public static isPublicAction<T>(targetController: TType<T>, handler: TActionHandler<any>): boolean {
+        return Reflect.getMetadata(ACTION_PUBLIC, targetController, handler.name) === true;
+    }
+
     public static getAuthenticationMetadata<T>(targetService: TType<T>, name: string): IMiddlewareMetadata {
         return this._getMiddlewareMetadata(MIDDLEWARE_AUTHENTICATION, targetService, name);
     }
@@ -720,6 +1252,20 @@ export class AppRegistry {
         return this._getMiddlewareMetadata(MIDDLEWARE_GENERIC, targetService, name);
     }
 
+    private static _getControllerMiddlewares<T>(targetController: TType<T>): IControllerMiddlewareMetadata {
+        let metadata = Reflect.getOwnMetadata(CONTROLLER_MIDDLEWARES, targetController) as IControllerMiddlewareMetadata;
+        if (metadata === undefined) {
+            metadata = {
+                authentication: [],
+                authorization: [],
+                generics: []
+            };
+            Reflect.defineMetadata(CONTROLLER_MIDDLEWARES, metadata, targetController);
+        }
+
+        return metadata;
+    }
+
     private static _getActionMetadata<T>(targetController: TType<T>, handler: TActionHandler<any>): IActionMetadata {
         const actions = Reflect.getMetadata(ACTIONS, targetController) as IActionMetadata[];
         const action = actions.find((a: IActionMetadata) => a.handler === handler);
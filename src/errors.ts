@@ -1,5 +1,26 @@
 import * as httpStatus from "http-status-codes";
 
+export interface ILifecycleFailure {
+    readonly service: string;
+    readonly hook: string;
+    readonly reason: string;
+}
+
+export interface IConfigFailure {
+    readonly key: string;
+    readonly reason: string;
+}
+
+export interface IStartupFailure {
+    readonly action: string;
+    readonly reason: string;
+}
+
+export interface IValidationFailure {
+    readonly path: string;
+    readonly reason: string;
+}
+
 export class AppError<T> extends Error {
 
     private _code: number;
@@ -52,3 +73,39 @@ export class ParameterError extends AppError<string> {
         super("ParameterError", httpStatus.BAD_REQUEST, message, parameter);
     }
 }
+
+export class NotAcceptableError extends AppError<string[]> {
+    constructor(message: string, mediaTypes: string[]) {
+        super("NotAcceptableError", httpStatus.NOT_ACCEPTABLE, message, mediaTypes);
+    }
+}
+
+export class ValidationError extends AppError<IValidationFailure[]> {
+    constructor(message: string, failures: IValidationFailure[]) {
+        super("ValidationError", httpStatus.BAD_REQUEST, message, failures);
+    }
+}
+
+export class LifecycleError extends AppError<ILifecycleFailure[]> {
+    constructor(message: string, failures: ILifecycleFailure[]) {
+        super("LifecycleError", httpStatus.INTERNAL_SERVER_ERROR, message, failures);
+    }
+}
+
+export class ConfigError extends AppError<IConfigFailure[]> {
+    constructor(message: string, failures: IConfigFailure[]) {
+        super("ConfigError", httpStatus.INTERNAL_SERVER_ERROR, message, failures);
+    }
+}
+
+export class MigrationError extends AppError<any> {
+    constructor(message: string, data?: any) {
+        super("MigrationError", httpStatus.INTERNAL_SERVER_ERROR, message, data);
+    }
+}
+
+export class StartupError extends AppError<IStartupFailure[]> {
+    constructor(message: string, failures: IStartupFailure[]) {
+        super("StartupError", httpStatus.INTERNAL_SERVER_ERROR, message, failures);
+    }
+}
@@ -0,0 +1,51 @@
+import * as fs from "fs";
+import { Readable } from "stream";
+
+export interface IFileOptions {
+    readonly required?: boolean;
+    // Maximum size of each file, in bytes.
+    readonly maxSize?: number;
+    // Allowed MIME types, like "image/png" or "image/*".
+    readonly types?: string[];
+}
+
+export interface IFilesOptions extends IFileOptions {
+    readonly maxCount?: number;
+}
+
+export class UploadedFile {
+
+    private _name: string;
+    private _size: number;
+    private _type: string;
+    private _path: string;
+
+    constructor(name: string, size: number, type: string, path: string) {
+        this._name = name;
+        this._size = size;
+        this._type = type;
+        this._path = path;
+    }
+
+    public get name(): string {
+        return this._name;
+    }
+
+    public get size(): number {
+        return this._size;
+    }
+
+    public get type(): string {
+        return this._type;
+    }
+
+    // Temporary file, removed once the request is handled (move it to keep it).
+    public get path(): string {
+        return this._path;
+    }
+
+    public stream(): Readable {
+        return fs.createReadStream(this._path);
+    }
+
+}
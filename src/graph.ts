@@ -0,0 +1,164 @@
+export interface IGraphMiddleware {
+    readonly service: string;
+    readonly name: string;
+}
+
+export interface IGraphArgMiddleware extends IGraphMiddleware {
+    readonly index: number;
+}
+
+export interface IGraphAction {
+    readonly name: string;
+    readonly method: string;
+    readonly route: string;
+    readonly version?: string;
+    readonly authentication: IGraphMiddleware[];
+    readonly authorization: IGraphMiddleware[];
+    readonly before: IGraphMiddleware[];
+    readonly after: IGraphMiddleware[];
+    readonly resolvers: IGraphArgMiddleware[];
+    readonly validators: IGraphArgMiddleware[];
+}
+
+export interface IGraphController {
+    readonly name: string;
+    readonly route: string;
+    readonly dependencies: string[];
+    readonly actions: IGraphAction[];
+}
+
+export interface IGraphServiceMiddleware {
+    readonly type: string;
+    readonly name: string;
+}
+
+export interface IGraphService {
+    readonly name: string;
+    readonly lifetime: string;
+    readonly dependencies: string[];
+    readonly middlewares: IGraphServiceMiddleware[];
+}
+
+export interface IGraphProvider {
+    readonly token: string;
+    readonly kind: string;
+    readonly dependencies: string[];
+}
+
+export interface IGraphModule {
+    readonly name: string;
+    readonly route: string;
+    readonly imports: string[];
+    readonly exports: string[];
+    readonly services: IGraphService[];
+    readonly providers: IGraphProvider[];
+    readonly migrations: string[];
+    readonly controllers: IGraphController[];
+}
+
+export interface IAppGraph {
+    readonly modules: IGraphModule[];
+}
+
+export class GraphExporter {
+
+    public static toJson(graph: IAppGraph): string {
+        return JSON.stringify(graph, undefined, "    ");
+    }
+
+    public static toDot(graph: IAppGraph): string {
+        const lines = new Array<string>();
+
+        lines.push("digraph ornate {");
+        lines.push("    rankdir=LR;");
+        lines.push("    node [fontname=\"Helvetica\", fontsize=10];");
+
+        for (const graphModule of graph.modules) {
+            lines.push("");
+            lines.push(`    subgraph ${this._id("cluster", graphModule.name)} {`);
+            lines.push(`        label=${this._quote(graphModule.route !== "" ? `${graphModule.name} (${graphModule.route})` : graphModule.name)};`);
+            lines.push(`        ${this._id("module", graphModule.name)} [label=${this._quote(graphModule.name)}, shape=folder];`);
+
+            for (const service of graphModule.services) {
+                lines.push(`        ${this._id("service", service.name)} [label=${this._quote(service.name)}, shape=box];`);
+            }
+
+            for (const provider of graphModule.providers) {
+                lines.push(`        ${this._id("service", provider.token)} [label=${this._quote(`${provider.token} (${provider.kind})`)}, shape=box, style=rounded];`);
+            }
+
+            for (const controller of graphModule.controllers) {
+                lines.push(`        ${this._id("controller", controller.name)} [label=${this._quote(controller.name)}, shape=component];`);
+
+                for (const action of controller.actions) {
+                    lines.push(`        ${this._id("action", action.name)} [label=${this._quote(this._getActionLabel(action))}, shape=note];`);
+                }
+            }
+
+            lines.push("    }");
+        }
+
+        lines.push("");
+
+        for (const graphModule of graph.modules) {
+            for (const imported of graphModule.imports) {
+                lines.push(`    ${this._id("module", graphModule.name)} -> ${this._id("module", imported)} [label="imports"];`);
+            }
+
+            for (const service of graphModule.services) {
+                for (const dependency of service.dependencies) {
+                    lines.push(`    ${this._id("service", service.name)} -> ${this._id("service", dependency)};`);
+                }
+            }
+
+            for (const provider of graphModule.providers) {
+                for (const dependency of provider.dependencies) {
+                    lines.push(`    ${this._id("service", provider.token)} -> ${this._id("service", dependency)};`);
+                }
+            }
+
+            for (const controller of graphModule.controllers) {
+                for (const dependency of controller.dependencies) {
+                    lines.push(`    ${this._id("controller", controller.name)} -> ${this._id("service", dependency)};`);
+                }
+
+                for (const action of controller.actions) {
+                    lines.push(`    ${this._id("controller", controller.name)} -> ${this._id("action", action.name)};`);
+
+                    const chain: [string, IGraphMiddleware[]][] = [
+                        ["authentication", action.authentication],
+                        ["authorization", action.authorization],
+                        ["before", action.before],
+                        ["after", action.after],
+                        ["resolve", action.resolvers],
+                        ["validate", action.validators]
+                    ];
+
+                    for (const [type, middlewares] of chain) {
+                        for (const middleware of middlewares) {
+                            lines.push(`    ${this._id("action", action.name)} -> ${this._id("service", middleware.service)} ` +
+                                `[label=${this._quote(`${type}: ${middleware.name}`)}, style=dashed];`);
+                        }
+                    }
+                }
+            }
+        }
+
+        lines.push("}");
+
+        return lines.join("\n");
+    }
+
+    private static _getActionLabel(action: IGraphAction): string {
+        return action.version !== undefined ? `${action.method} ${action.route} (v${action.version})` : `${action.method} ${action.route}`;
+    }
+
+    private static _id(type: string, name: string): string {
+        return this._quote(`${type}:${name}`);
+    }
+
+    private static _quote(value: string): string {
+        return `"${value.replace(/\\/g, "\\\\").replace(/"/g, "\\\"")}"`;
+    }
+
+}
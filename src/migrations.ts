@@ -0,0 +1,71 @@
+import * as fs from "fs";
+import * as util from "util";
+
+import { MigrationError } from "./errors";
+
+const DEFAULT_STATE_FILE = ".migrations.json";
+
+export interface IMigrationState {
+    readonly name: string;
+    readonly appliedAt: string;
+}
+
+export interface IMigrationStore {
+    // Must fail if another process holds the lock.
+    lock(): Promise<void>;
+    unlock(): Promise<void>;
+    load(): Promise<IMigrationState[]>;
+    save(applied: IMigrationState[]): Promise<void>;
+}
+
+export interface IMigrationParams {
+    readonly store?: IMigrationStore;
+}
+
+export class FileMigrationStore implements IMigrationStore {
+
+    private _file: string;
+    private _lockFile: string;
+
+    constructor(file?: string) {
+        this._file = file !== undefined ? file : DEFAULT_STATE_FILE;
+        this._lockFile = `${this._file}.lock`;
+    }
+
+    public async lock(): Promise<void> {
+        try {
+            // Exclusive creation: fails when the lock file already exists.
+            await fs.promises.writeFile(this._lockFile, String(process.pid), {flag: "wx"});
+
+        } catch (err) {
+            if (err.code === "EEXIST") {
+                throw new MigrationError(util.format(
+                    "[ornate] Migrations are locked by another process (remove %s if it is stale)",
+                    this._lockFile
+                ));
+            }
+            throw err;
+        }
+    }
+
+    public async unlock(): Promise<void> {
+        await fs.promises.unlink(this._lockFile);
+    }
+
+    public async load(): Promise<IMigrationState[]> {
+        if (!fs.existsSync(this._file)) {
+            return [];
+        }
+
+        return JSON.parse(await fs.promises.readFile(this._file, "utf-8"));
+    }
+
+    public async save(applied: IMigrationState[]): Promise<void> {
+        // Write then rename, so the state is never left half written.
+        const tmpFile = `${this._file}.tmp`;
+
+        await fs.promises.writeFile(tmpFile, JSON.stringify(applied, undefined, "    "));
+        await fs.promises.rename(tmpFile, this._file);
+    }
+
+}
@@ -1,4 +1,8 @@
 export * from "./errors";
 export * from "./responses";
 export * from "./decorators";
+export * from "./config";
+export * from "./graph";
+export * from "./migrations";
+export * from "./files";
 export * from "./app";
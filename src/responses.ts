@@ -1,16 +1,65 @@
 import * as httpStatus from "http-status-codes";
+import { once } from "events";
+import { PassThrough, Readable } from "stream";
+
+const DEFAULT_HEARTBEAT = 15000;
+const HEARTBEAT = Symbol("heartbeat");
 
 export const enum EResponseType {
     NULL = 0,
     RAW = 1,
     TEXT = 2,
-    JSON = 3
+    JSON = 3,
+    STREAM = 4,
+    REDIRECT = 5,
+    DATA = 6
 }
 
 export interface IResponseHeaders {
     [key: string]: string;
 }
 
+export interface ISerializer {
+    serialize(data: any): string | Buffer;
+}
+
+export interface IServerEvent {
+    readonly event?: string;
+    readonly id?: string;
+    // Objects are sent as JSON.
+    readonly data?: any;
+    // Reconnection delay of the client, in milliseconds.
+    readonly retry?: number;
+}
+
+export interface IEventStreamOptions {
+    // Interval of the comments keeping the connection open, in milliseconds (default: 15000).
+    readonly heartbeat?: number;
+}
+
+// Sources given a signal can stop waiting for their next event when the client goes away.
+export type TEventSource = AsyncIterable<IServerEvent> | ((signal: AbortSignal) => AsyncIterable<IServerEvent>);
+
+export interface ICookieOptions {
+    readonly maxAge?: number;
+    readonly expires?: Date;
+    readonly path?: string;
+    readonly domain?: string;
+    readonly secure?: boolean;
+    readonly httpOnly?: boolean;
+    readonly sameSite?: "strict" | "lax" | "none" | boolean;
+    // Signs the cookie with the application keys (see IAppParams.cookies).
+    readonly signed?: boolean;
+    readonly overwrite?: boolean;
+}
+
+export interface IResponseCookie {
+    readonly name: string;
+    // Undefined clears the cookie.
+    readonly value: string;
+    readonly options: ICookieOptions;
+}
+
 export class ActionResponse<T> {
 
     private _status: number;
@@ -18,6 +67,7 @@ export class ActionResponse<T> {
     private _data: T;
     private _headers: IResponseHeaders;
     private _next: boolean;
+    private _cookies: IResponseCookie[] = [];
 
     constructor(status: number, type: EResponseType, data: T, headers: IResponseHeaders, next = true) {
         this._status = status;
@@ -47,11 +97,37 @@ export class ActionResponse<T> {
         return this._next;
     }
 
+    public get cookies(): IResponseCookie[] {
+        return this._cookies;
+    }
+
+    // Any status, for any body type (like a 503 TextResponse).
+    public withStatus(status: number): this {
+        this._status = status;
+        return this;
+    }
+
+    public setCookie(name: string, value: string, options: ICookieOptions = {}): this {
+        this._cookies.push({name, value, options});
+        return this;
+    }
+
+    public clearCookie(name: string, options: ICookieOptions = {}): this {
+        this._cookies.push({name, value: undefined, options});
+        return this;
+    }
+
 }
 
 export class NullResponse extends ActionResponse<void> {
     constructor(headers?: IResponseHeaders, next = true) {
-        super(httpStatus.OK, EResponseType.RAW, undefined, headers, next);
+        super(httpStatus.OK, EResponseType.NULL, undefined, headers, next);
+    }
+}
+
+export class NoContentResponse extends ActionResponse<void> {
+    constructor(headers?: IResponseHeaders, next = false) {
+        super(httpStatus.NO_CONTENT, EResponseType.NULL, undefined, headers, next);
     }
 }
 
@@ -73,8 +149,187 @@ export class JsonResponse<T> extends ActionResponse<T> {
     }
 }
 
+export class CreatedResponse<T> extends ActionResponse<T> {
+    constructor(location: string, data?: T, headers?: IResponseHeaders, next = false) {
+        super(httpStatus.CREATED, EResponseType.JSON, data, {...headers, Location: location}, next);
+    }
+}
+
+export class AcceptedResponse<T> extends ActionResponse<T> {
+    constructor(data?: T, headers?: IResponseHeaders, next = false) {
+        super(httpStatus.ACCEPTED, EResponseType.JSON, data, headers, next);
+    }
+}
+
+// Serialized to the media type negotiated with the request Accept header (see IAppParams.serializers).
+export class DataResponse<T> extends ActionResponse<T> {
+    constructor(data?: T, headers?: IResponseHeaders, next = false) {
+        super(httpStatus.OK, EResponseType.DATA, data, headers, next);
+    }
+}
+
 export class RedirectResponse extends ActionResponse<string> {
     constructor(url: string, headers?: IResponseHeaders, next = false) {
-        super(httpStatus.MOVED_TEMPORARILY, EResponseType.JSON, url, headers, next);
+        super(httpStatus.MOVED_TEMPORARILY, EResponseType.REDIRECT, url, headers, next);
+    }
+}
+
+export class MovedPermanentlyResponse extends ActionResponse<string> {
+    constructor(url: string, headers?: IResponseHeaders, next = false) {
+        super(httpStatus.MOVED_PERMANENTLY, EResponseType.REDIRECT, url, headers, next);
+    }
+}
+
+// Unlike 302, the client repeats the request method and body.
+export class TemporaryRedirectResponse extends ActionResponse<string> {
+    constructor(url: string, headers?: IResponseHeaders, next = false) {
+        super(httpStatus.TEMPORARY_REDIRECT, EResponseType.REDIRECT, url, headers, next);
+    }
+}
+
+export class PermanentRedirectResponse extends ActionResponse<string> {
+    constructor(url: string, headers?: IResponseHeaders, next = false) {
+        super(httpStatus.PERMANENT_REDIRECT, EResponseType.REDIRECT, url, headers, next);
+    }
+}
+
+export class StreamResponse extends ActionResponse<Readable> {
+
+    private _contentType: string;
+    private _length: number;
+
+    constructor(
+        data: Readable | AsyncIterable<any>,
+        contentType = "application/octet-stream",
+        length?: number,
+        headers?: IResponseHeaders,
+        next = false
+    ) {
+        super(httpStatus.OK, EResponseType.STREAM, data instanceof Readable ? data : Readable.from(data), headers, next);
+
+        this._contentType = contentType;
+        this._length = length;
+    }
+
+    public get contentType(): string {
+        return this._contentType;
+    }
+
+    public get length(): number {
+        return this._length;
+    }
+
+}
+
+export class EventStreamResponse extends StreamResponse {
+    constructor(events: TEventSource, options: IEventStreamOptions = {}, headers?: IResponseHeaders, next = false) {
+        const controller = new AbortController();
+
+        super(
+            eventStream(
+                typeof events === "function" ? events(controller.signal) : events,
+                options.heartbeat !== undefined ? options.heartbeat : DEFAULT_HEARTBEAT,
+                controller
+            ),
+            "text/event-stream",
+            undefined,
+            {"Cache-Control": "no-cache", "X-Accel-Buffering": "no", ...headers},
+            next
+        );
+    }
+}
+
+function formatEvent(event: IServerEvent): string {
+    const lines = new Array<string>();
+
+    if (event.id !== undefined) {
+        lines.push(`id: ${event.id}`);
+    }
+    if (event.event !== undefined) {
+        lines.push(`event: ${event.event}`);
+    }
+    if (event.retry !== undefined) {
+        lines.push(`retry: ${event.retry}`);
+    }
+    if (event.data !== undefined) {
+        const data = typeof event.data === "string" ? event.data : JSON.stringify(event.data);
+        lines.push(...data.split(/\r?\n/).map((line: string) => `data: ${line}`));
+    }
+
+    return `${lines.join("\n")}\n\n`;
+}
+
+interface IEventStreamState {
+    aborted: boolean;
+    // Stops waiting for the pending event.
+    wake: () => void;
+}
+
+function eventStream(events: AsyncIterable<IServerEvent>, heartbeat: number, controller: AbortController): Readable {
+    const state: IEventStreamState = {aborted: false, wake: (): void => undefined};
+    const stream = new PassThrough();
+
+    // Unlike Readable.from(), closing the stream (the client went away) doesn't wait for the pending event.
+    stream.once("close", () => {
+        state.aborted = true;
+        state.wake();
+        controller.abort();
+    });
+
+    (async (): Promise<void> => {
+        for await (const chunk of streamEvents(events, heartbeat, state)) {
+            if (!stream.write(chunk)) {
+                await once(stream, "drain", {signal: controller.signal});
+            }
+        }
+        stream.end();
+    })().catch((err: Error) => stream.destroy(err));
+
+    return stream;
+}
+
+async function* streamEvents(
+    events: AsyncIterable<IServerEvent>,
+    heartbeat: number,
+    state: IEventStreamState
+): AsyncGenerator<string, void, undefined> {
+    const iterator = events[Symbol.asyncIterator]();
+    let next = iterator.next();
+
+    try {
+        while (true) {
+            let timer: NodeJS.Timeout;
+            const tick = new Promise<typeof HEARTBEAT>((resolve) => {
+                timer = setTimeout(() => resolve(HEARTBEAT), heartbeat);
+                state.wake = () => resolve(HEARTBEAT);
+            });
+
+            const result = await Promise.race([next, tick]);
+            clearTimeout(timer);
+
+            if (state.aborted) {
+                // The pending event is dropped.
+                next.catch((): void => undefined);
+                return;
+            }
+
+            if (result === HEARTBEAT) {
+                yield ": heartbeat\n\n";
+                continue;
+            }
+
+            if (result.done) {
+                return;
+            }
+
+            yield formatEvent(result.value);
+            next = iterator.next();
+        }
+
+    } finally {
+        // Not awaited: a generator waiting for its next event only returns once it gets it (or honours the signal).
+        if (iterator.return !== undefined) {
+            iterator.return().catch((): void => undefined);
+        }
     }
 }
@@ -9,6 +9,7 @@ import { App } from "app";
 
 const HEADER_CONTENT_LENGTH  = "content-length";
 const HEADER_CONTENT_TYPE = "content-type";
+const HEADER_SET_COOKIE = "set-cookie";
 
 const CONTENT_TYPE_TEXT_PLAIN = "text/plain";
 const CONTENT_TYPE_TEXT_HTML = "text/html";
@@ -20,15 +21,21 @@ export interface IHttpHeaders {
 }
 
 export interface IApiResponse<T> {
+    status: number;
     headers: IHttpHeaders;
+    // Set-Cookie headers, one per cookie.
+    cookies: string[];
     body: T;
 }
 
 export interface ITestRequestOptions {
     body?: fetch.BodyInit;
     params?: {[param: string]: string};
-    query?: {[param: string]: string};
+    // Arrays repeat the key.
+    query?: {[param: string]: string | string[]};
     headers?: fetch.HeaderInit;
+    version?: string;
+    redirect?: fetch.RequestRedirect;
 }
 
 export interface ITestRouter {
@@ -40,13 +47,15 @@ export class TestError extends Error {
     private _route: string;
     private _status: number;
     private _statusText: string;
+    private _headers: IHttpHeaders;
 
-    constructor(route: string, status: number, statusText: string, message: string) {
+    constructor(route: string, status: number, statusText: string, message: string, headers: IHttpHeaders = {}) {
         super(message);
 
         this._route = route;
         this._status = status;
         this._statusText = statusText;
+        this._headers = headers;
     }
 
     public get route(): string {
@@ -60,6 +69,10 @@ export class TestError extends Error {
     public get statusText(): string {
         return this._statusText;
     }
+
+    public get headers(): IHttpHeaders {
+        return this._headers;
+    }
 }
 
 export class Test<T> {
@@ -72,14 +85,16 @@ export class Test<T> {
     private _options: ITestRequestOptions;
 
     constructor(app: App, method: string, route: string, options: ITestRequestOptions) {
-        this._url = app.getUrl(route, options.params, options.query);
+        this._url = app.getUrl(route, options.params, options.query, options.version);
 
         this._server = app.server.listen(0);
 
         const info = this._server.address() as AddressInfo;
         this._host = util.format("http://127.0.0.1:%s", info.port);
         this._method = method;
-        this._options = options;
+        this._options = options.version !== undefined
+                      ? {...options, headers: {...app.getVersionHeaders(options.version), ...(options.headers as {[header: string]: string})}}
+                      : options;
     }
 
     public async run(): Promise<IApiResponse<T>> {
@@ -91,11 +106,12 @@ export class Test<T> {
 
             const response = await fetch.default(this._host + this._url, options);
 
-            if (response.status !== httpStatus.OK) {
+            // Successful and redirect responses are returned, error ones thrown.
+            if (response.status >= httpStatus.BAD_REQUEST) {
                 const url = `${this._method} ${this._host}${this._url}`;
                 const message = await response.text();
 
-                throw new TestError(url, response.status, response.statusText, message);
+                throw new TestError(url, response.status, response.statusText, message, this._getHeaders(response));
             }
 
             const headers = this._getHeaders(response);
@@ -104,7 +120,9 @@ export class Test<T> {
             this._server.close();
 
             return {
+                status: response.status,
                 headers,
+                cookies: response.headers.raw()[HEADER_SET_COOKIE] || [],
                 body: body as T
             };
 
@@ -135,6 +153,11 @@ export class Test<T> {
             return undefined;
         }
 
+        if (!response.headers.has(HEADER_CONTENT_TYPE)) {
+            const text = await response.text();
+            return text !== "" ? text : undefined;
+        }
+
         const [contentType] = response.headers.get(HEADER_CONTENT_TYPE).split(";");
 
         switch (contentType) {
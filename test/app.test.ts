@@ -76,12 +76,19 @@ class HelloController {
     ],
     initialize: [
         TestService1
+    ],
+    exports: [
+        TestService1,
+        TestService2
     ]
 })
 class ServiceModule {}
 
 @ornate.Module({
     route: "test",
+    modules: [
+        ServiceModule
+    ],
     controllers: [
         HelloController
     ]
@@ -0,0 +1,110 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+enum EStatus {
+    ACTIVE = "active",
+    DISABLED = "disabled"
+}
+
+enum EPriority {
+    LOW,
+    HIGH
+}
+
+@ornate.Controller("items")
+class ItemController {
+
+    @ornate.Get(":id")
+    public get(
+        @ornate.Param("id") id: number,
+        @ornate.Query("active") active: boolean,
+        @ornate.Query("since") since: Date,
+        @ornate.Query("status", {enum: EStatus}) status: EStatus,
+        @ornate.Header("x-priority", {enum: EPriority}) priority: EPriority
+    ): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse({id, active, since: since !== undefined ? since.toISOString() : undefined, status, priority});
+    }
+
+    @ornate.Get("")
+    public list(
+        @ornate.Query("page") page: number,
+        @ornate.Query("tag") tags: string[],
+        @ornate.Query("ids", {items: Number}) ids: number[]
+    ): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse({page, tags, ids});
+    }
+
+    @ornate.Post("")
+    public create(
+        @ornate.Body("count") count: number,
+        @ornate.Body("labels") labels: any
+    ): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse({count, labels});
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        ItemController
+    ]
+})
+class ItemModule {}
+
+describe("Ornate App argument coercion", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [ItemModule], parser: {}});
+    });
+
+    it("Coerces arguments to their declared types", async () => {
+        const response = await app.getRouter().get<any>("/items/:id", {
+            params: {id: "42"},
+            query: {active: "true", since: "2020-01-02T00:00:00.000Z", status: "active"},
+            headers: {"x-priority": "1"}
+        });
+
+        expect(response.body).to.deep.equal({id: 42, active: true, since: "2020-01-02T00:00:00.000Z", status: "active", priority: EPriority.HIGH});
+    });
+
+    it("Coerces body fields, leaving untyped ones untouched", async () => {
+        const response = await app.getRouter().post<any>("/items", {
+            body: JSON.stringify({count: "3", labels: ["a"]}),
+            headers: {"content-type": "application/json"}
+        });
+
+        expect(response.body).to.deep.equal({count: 3, labels: ["a"]});
+    });
+
+    it("Collects repeated query keys into array arguments", async () => {
+        const router = app.getRouter();
+        const response = await router.get("/items", {query: {tag: ["a", "b"], ids: ["0", "1"], page: "1"}});
+
+        expect(response.body).to.deep.equal({page: 1, tags: ["a", "b"], ids: [0, 1]});
+        expect((await router.get("/items", {query: {tag: "a"}})).body).to.deep.equal({tags: ["a"]});
+    });
+
+    it("Rejects arguments not matching their declared types", async () => {
+        const router = app.getRouter();
+
+        const err = await expect(router.get("/items/:id", {params: {id: "abc"}})).to.be.rejectedWith(Error, "Invalid param argument: id");
+        expect(err.status).to.equal(httpStatus.BAD_REQUEST);
+
+        await expect(router.get("/items/:id", {params: {id: "1"}, query: {status: "unknown"}}))
+            .to.be.rejectedWith(Error, "expected one of [\"active\",\"disabled\"]");
+        await expect(router.get("/items/:id", {params: {id: "1"}, query: {since: "never"}})).to.be.rejectedWith(Error, "expected date");
+
+        await expect(router.get("/items", {query: {page: ["1", "2"]}}))
+            .to.be.rejectedWith(Error).and.eventually.have.property("status", httpStatus.BAD_REQUEST);
+        await expect(router.get("/items", {query: {ids: ["1", "x"]}}))
+            .to.be.rejectedWith(Error).and.eventually.have.property("status", httpStatus.BAD_REQUEST);
+    });
+
+});
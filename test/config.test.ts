@@ -0,0 +1,96 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+const expect = chai.expect;
+
+const DEFAULT_PORT = 8080;
+const FILE_PORT = 3000;
+
+@ornate.Service()
+class DatabaseService {
+
+    public readonly url: string;
+    public readonly port: number;
+    public readonly debug: boolean;
+
+    constructor(
+        @ornate.Config("database.url") url: string,
+        @ornate.Config("port") port: number,
+        @ornate.Config("debug") debug: boolean
+    ) {
+        this.url = url;
+        this.port = port;
+        this.debug = debug;
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        DatabaseService
+    ]
+})
+class DatabaseModule {}
+
+const schema: ornate.IConfigSchema = {
+    "database.url": {},
+    "port": {type: ornate.EConfigType.NUMBER, default: DEFAULT_PORT},
+    "debug": {type: ornate.EConfigType.BOOLEAN, env: "ORNATE_TEST_DEBUG", required: false},
+    "mode": {choices: ["development", "production"], required: false}
+};
+
+describe("Ornate App config", () => {
+
+    let directory: string;
+
+    before(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "ornate-config-"));
+
+        fs.writeFileSync(path.join(directory, ".env"), "# Database\nDATABASE_URL=\"db://env-file\"\nORNATE_TEST_DEBUG=yes\n");
+        fs.writeFileSync(path.join(directory, "config.json"), JSON.stringify({database: {url: "db://json"}, port: FILE_PORT}));
+    });
+
+    after(() => {
+        fs.rmSync(directory, {recursive: true});
+    });
+
+    it("Injects values loaded from files and environment", () => {
+        const app = new ornate.App({
+            modules: [DatabaseModule],
+            config: {
+                schema,
+                files: [path.join(directory, "config.json"), path.join(directory, ".env")]
+            }
+        });
+
+        const databaseService = app.injector.getService(DatabaseService);
+
+        expect(databaseService.url).to.equal("db://env-file");
+        expect(databaseService.port).to.equal(FILE_PORT);
+        expect(databaseService.debug).to.equal(true);
+    });
+
+    it("Reports every missing and invalid key", () => {
+        process.env.ORNATE_TEST_DEBUG = "maybe";
+        process.env.MODE = "staging";
+
+        try {
+            expect(() => new ornate.App({modules: [DatabaseModule], config: {schema}}))
+                .to.throw(ornate.ConfigError)
+                .with.property("data")
+                .that.deep.equals([
+                    {key: "database.url", reason: "missing (set DATABASE_URL)"},
+                    {key: "debug", reason: "expected boolean, got: \"maybe\""},
+                    {key: "mode", reason: "expected one of [\"development\",\"production\"], got: \"staging\""}
+                ]);
+
+        } finally {
+            delete process.env.ORNATE_TEST_DEBUG;
+            delete process.env.MODE;
+        }
+    });
+
+});
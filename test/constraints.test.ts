@@ -0,0 +1,86 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as fetch from "node-fetch";
+import * as httpStatus from "http-status-codes";
+import { AddressInfo } from "net";
+
+const expect = chai.expect;
+
+@ornate.Controller("users")
+class UserController {
+
+    @ornate.Get(":id(\\d+)")
+    public get(
+        @ornate.Param("id") id: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(`user ${id}`);
+    }
+
+    @ornate.Get(":name")
+    public getByName(
+        @ornate.Param("name") name: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(`user named ${name}`);
+    }
+
+    @ornate.Get(":id/orders/:orderId")
+    public getOrder(
+        @ornate.Param("id", {type: "int"}) id: string,
+        @ornate.Param("orderId", {required: true, pattern: "[A-Z]{3}-\\d+"}) orderId: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(`order ${orderId} of user ${id}`);
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        UserController
+    ]
+})
+class UserModule {}
+
+describe("Ornate App route constraints", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [UserModule], parser: {}});
+    });
+
+    it("Falls through to the next route when a constraint doesn't hold", async () => {
+        const router = app.getRouter();
+
+        expect((await router.get("/users/:id", {params: {id: "42"}})).body).to.equal("user 42");
+        expect((await router.get("/users/:name", {params: {name: "me"}})).body).to.equal("user named me");
+    });
+
+    it("Constrains typed parameters", async () => {
+        const router = app.getRouter();
+
+        expect((await router.get("/users/:id/orders/:orderId", {params: {id: "42", orderId: "ABC-1"}})).body).to.equal("order ABC-1 of user 42");
+
+        const server = app.server.listen(0);
+        const port = (server.address() as AddressInfo).port;
+
+        try {
+            const response = await fetch.default(`http://127.0.0.1:${port}/users/me/orders/ABC-1`);
+
+            expect(response.status).to.equal(httpStatus.NOT_FOUND);
+
+        } finally {
+            server.close();
+        }
+    });
+
+    it("Shows the constraints in the route graph", () => {
+        const [userModule] = app.describe().modules;
+
+        expect(userModule.controllers[0].actions.map((a) => a.route)).to.deep.equal([
+            "/users/:id(\\d+)",
+            "/users/:name",
+            "/users/:id(\\d+)/orders/:orderId([A-Z]{3}-\\d+)"
+        ]);
+    });
+
+});
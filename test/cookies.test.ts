@@ -0,0 +1,104 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+const SESSION_MAX_AGE = 60000;
+
+@ornate.Controller("session")
+class SessionController {
+
+    @ornate.Post("")
+    public login(): ornate.TextResponse {
+        return new ornate.TextResponse("ok")
+            .setCookie("session", "abc", {signed: true, httpOnly: true, maxAge: SESSION_MAX_AGE})
+            .setCookie("theme", "dark")
+            .clearCookie("legacy");
+    }
+
+    @ornate.Get("")
+    public get(
+        @ornate.Cookie("session", {required: true, signed: true}) session: string,
+        @ornate.Cookie("visits") visits: number
+    ): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse({session, visits});
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        SessionController
+    ]
+})
+class SessionModule {}
+
+@ornate.Controller("login")
+class LoginController {
+
+    @ornate.Post("")
+    public login(): ornate.TextResponse {
+        return new ornate.TextResponse("ok").setCookie("session", "abc", {signed: true});
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        LoginController
+    ]
+})
+class LoginModule {}
+
+describe("Ornate App cookies", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [SessionModule], parser: {}, cookies: {keys: ["secret"]}});
+    });
+
+    it("Sets, signs and clears response cookies", async () => {
+        const [session, signature, theme, legacy] = (await app.getRouter().post("/session", {})).cookies;
+
+        expect(session).to.match(/^session=abc; path=\/; expires=.*; httponly$/);
+        expect(signature).to.match(/^session\.sig=[\w-]+;/);
+        expect(theme).to.match(/^theme=dark;/);
+        expect(legacy).to.match(/^legacy=; path=\/; expires=Thu, 01 Jan 1970/);
+    });
+
+    it("Reads signed cookies as arguments", async () => {
+        const [session, signature] = (await app.getRouter().post("/session", {})).cookies.map((c: string) => c.split(";")[0]);
+
+        const response = await app.getRouter().get("/session", {headers: {cookie: [session, signature, "visits=3"].join("; ")}});
+
+        expect(response.body).to.deep.equal({session: "abc", visits: 3});
+    });
+
+    it("Rejects cookies with an invalid signature", async () => {
+        await expect(app.getRouter().get("/session", {headers: {cookie: "session=abc; session.sig=forged"}}))
+            .to.be.rejectedWith(Error).and.eventually.have.property("status", httpStatus.BAD_REQUEST);
+    });
+
+    it("Requires keys for signed cookies", () => {
+        expect(() => new ornate.App({modules: [SessionModule]}))
+            .to.throw(ornate.StartupError, "SessionController.get (signed cookie session but no cookie keys configured)");
+    });
+
+    it("Fails signing response cookies without keys", async () => {
+        const errors = new Array<string>();
+        const log = (): void => undefined;
+        const logger = {trace: log, debug: log, info: log, warn: log, error: (...args: any[]) => errors.push(args.join(" "))};
+
+        const loginApp = new ornate.App({modules: [LoginModule], parser: {}, logger});
+
+        await expect(app.getRouter().post("/session", {})).to.be.fulfilled;
+        await expect(loginApp.getRouter().post("/login", {}))
+            .to.be.rejectedWith(Error).and.eventually.have.property("status", httpStatus.INTERNAL_SERVER_ERROR);
+        expect(errors.join("\n")).to.include("Cannot sign cookie session: no cookie keys configured");
+    });
+
+});
@@ -0,0 +1,90 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+const UserAgent = ornate.createParamDecorator((context) => context.get("user-agent"));
+
+const Tenant = ornate.createParamDecorator(async (context, header: string) => {
+    await new Promise((resolve) => setImmediate(resolve));
+    return context.get(header) || "default";
+});
+
+const calls = new Array<string>();
+
+@ornate.Service()
+class TenantService {
+
+    @ornate.Resolver("tenant")
+    public async resolve(name: string): Promise<{name: string}> {
+        return {name};
+    }
+
+    @ornate.Policy("active")
+    public async active(tenant: {name: string}): Promise<boolean> {
+        return tenant.name !== "closed";
+    }
+
+    @ornate.Generic("audit")
+    public async audit(@Tenant("x-tenant") tenant: string, @UserAgent() agent: string): Promise<void> {
+        calls.push(`${tenant}:${agent}`);
+    }
+
+}
+
+@ornate.Controller("tenants")
+class TenantController {
+
+    @ornate.Before(TenantService, "audit")
+    @ornate.Get("current")
+    public current(
+        @Tenant("x-tenant") @ornate.Resolve(TenantService, "tenant") @ornate.Validate(TenantService, "active") tenant: {name: string},
+        @UserAgent() agent: string
+    ): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse({tenant, agent});
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        TenantService
+    ],
+    controllers: [
+        TenantController
+    ]
+})
+class TenantModule {}
+
+describe("Ornate App custom parameter decorators", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        calls.length = 0;
+        app = new ornate.App({modules: [TenantModule], parser: {}});
+    });
+
+    it("Values arguments of actions and middlewares with their extractors", async () => {
+        const response = await app.getRouter().get("/tenants/current", {headers: {"x-tenant": "acme", "user-agent": "tests"}});
+
+        expect(response.body).to.deep.equal({tenant: {name: "acme"}, agent: "tests"});
+        expect(calls).to.deep.equal(["acme:tests"]);
+    });
+
+    it("Passes the decorator data to the extractor", async () => {
+        const response = await app.getRouter().get("/tenants/current", {headers: {"user-agent": "tests"}});
+
+        expect(response.body).to.deep.equal({tenant: {name: "default"}, agent: "tests"});
+    });
+
+    it("Composes with resolvers and validators", async () => {
+        const err = await expect(app.getRouter().get("/tenants/current", {headers: {"x-tenant": "closed"}})).to.be.rejectedWith(Error);
+
+        expect(err.status).to.equal(httpStatus.FORBIDDEN);
+    });
+
+});
@@ -0,0 +1,148 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+import { IApiResponse, ITestRequestOptions } from "../src/test";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+const NAME_MAX_LENGTH = 20;
+const AGE_MAX = 150;
+
+enum ERole {
+    ADMIN = "admin",
+    USER = "user"
+}
+
+class AddressDto {
+
+    @ornate.Field()
+    public city: string;
+
+    @ornate.Pattern(/^\d{5}$/)
+    public zip: string;
+
+}
+
+class UserDto {
+
+    @ornate.Length(1, NAME_MAX_LENGTH)
+    public name: string;
+
+    @ornate.Field({optional: true})
+    @ornate.Range(0, AGE_MAX)
+    public age: number;
+
+    @ornate.Field({enum: ERole})
+    public role: ERole;
+
+    @ornate.Field()
+    public address: AddressDto;
+
+    @ornate.Field({items: AddressDto, optional: true})
+    public others: AddressDto[];
+
+    @ornate.Field({items: String, optional: true})
+    @ornate.Length(0, 1)
+    public tags: string[];
+
+    public get label(): string {
+        return `${this.name} (${this.role})`;
+    }
+
+}
+
+@ornate.Controller("users")
+class UserController {
+
+    @ornate.Post("")
+    public create(
+        @ornate.Body() user: UserDto
+    ): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse({label: user.label, user});
+    }
+
+    @ornate.Put("")
+    public update(
+        @ornate.Body({unknown: ornate.EUnknownFields.STRIP}) user: UserDto
+    ): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse(user);
+    }
+
+    @ornate.Patch("")
+    public patch(
+        @ornate.Body({unknown: ornate.EUnknownFields.REJECT}) user: UserDto
+    ): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse(user);
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        UserController
+    ]
+})
+class UserModule {}
+
+describe("Ornate App body validation", () => {
+
+    const valid = {name: "Ada", role: "admin", address: {city: "London", zip: "12345"}};
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [UserModule], parser: {}});
+    });
+
+    function json(body: any): ITestRequestOptions {
+        return {body: JSON.stringify(body), headers: {"content-type": "application/json"}};
+    }
+
+    async function reject(request: Promise<IApiResponse<any>>): Promise<ornate.IValidationFailure[]> {
+        const err = await expect(request).to.be.rejectedWith(Error);
+
+        expect(err.status).to.equal(httpStatus.BAD_REQUEST);
+        return JSON.parse(err.message).failures;
+    }
+
+    it("Binds valid bodies to DTO instances", async () => {
+        const response = await app.getRouter().post("/users", json({...valid, age: "36", extra: true}));
+
+        expect(response.body).to.deep.equal({label: "Ada (admin)", user: {...valid, age: 36, extra: true}});
+    });
+
+    it("Reports every violation with its field path", async () => {
+        const failures = await reject(app.getRouter().post("/users", json({
+            name: "",
+            age: -1,
+            role: "root",
+            address: {zip: "1"},
+            others: [{city: "Paris", zip: "x"}],
+            tags: ["a", "b"]
+        })));
+
+        expect(failures).to.deep.equal([
+            {path: "name", reason: "expected at least 1 characters"},
+            {path: "age", reason: "expected at least 0"},
+            {path: "role", reason: "expected one of [\"admin\",\"user\"]"},
+            {path: "address.city", reason: "required"},
+            {path: "address.zip", reason: "expected to match /^\\d{5}$/"},
+            {path: "others[0].zip", reason: "expected to match /^\\d{5}$/"},
+            {path: "tags", reason: "expected at most 1 items"}
+        ]);
+    });
+
+    it("Strips or rejects unknown fields", async () => {
+        expect((await app.getRouter().put("/users", json({...valid, extra: true}))).body).to.deep.equal(valid);
+
+        const failures = await reject(app.getRouter().patch("/users", json({...valid, extra: true, address: {...valid.address, floor: 1}})));
+
+        expect(failures).to.deep.equal([
+            {path: "address.floor", reason: "unknown field"},
+            {path: "extra", reason: "unknown field"}
+        ]);
+    });
+
+});
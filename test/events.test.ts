@@ -0,0 +1,205 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as http from "http";
+import * as httpStatus from "http-status-codes";
+import { AddressInfo } from "net";
+import { EventEmitter, once } from "events";
+
+const expect = chai.expect;
+
+const HEARTBEAT = 10;
+const EVENT_DELAY = 25;
+const EVENT_COUNT = 3;
+const IDLE = 60000;
+
+const sleep = async (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let stopped: Promise<void>;
+
+// Never notified.
+const updates = new EventEmitter();
+
+@ornate.Service()
+class AuthService {
+
+    @ornate.Authentication("token")
+    public async token(@ornate.Header("x-token") token: string): Promise<boolean> {
+        return token === "secret";
+    }
+
+}
+
+@ornate.Authenticate(AuthService, "token")
+@ornate.Controller("progress")
+class ProgressController {
+
+    @ornate.Get("")
+    public progress(@ornate.LastEventId() lastEventId: number): ornate.EventStreamResponse {
+        async function* events(): AsyncIterable<ornate.IServerEvent> {
+            for (let id = (lastEventId || 0) + 1; id <= EVENT_COUNT; id++) {
+                await sleep(EVENT_DELAY);
+                yield {id: String(id), event: "progress", data: {done: id}};
+            }
+
+            yield {event: "end", data: "line 1\nline 2", retry: 0};
+        }
+
+        return new ornate.EventStreamResponse(events(), {heartbeat: HEARTBEAT});
+    }
+
+    @ornate.Get("endless")
+    public endless(): ornate.EventStreamResponse {
+        let stop: () => void;
+        stopped = new Promise<void>((resolve) => stop = resolve);
+
+        async function* events(): AsyncIterable<ornate.IServerEvent> {
+            try {
+                while (true) {
+                    yield {data: "tick"};
+                    await sleep(HEARTBEAT);
+                }
+            } finally {
+                stop();
+            }
+        }
+
+        return new ornate.EventStreamResponse(events());
+    }
+
+    @ornate.Get("idle")
+    public idle(): ornate.EventStreamResponse {
+        let stop: () => void;
+        stopped = new Promise<void>((resolve) => stop = resolve);
+
+        async function* events(signal: AbortSignal): AsyncIterable<ornate.IServerEvent> {
+            try {
+                yield {data: "ready"};
+                await once(updates, "update", {signal});
+            } finally {
+                stop();
+            }
+        }
+
+        return new ornate.EventStreamResponse((signal: AbortSignal) => events(signal), {heartbeat: IDLE});
+    }
+
+    @ornate.Get("silent")
+    public silent(): ornate.EventStreamResponse {
+        let stop: () => void;
+        stopped = new Promise<void>((resolve) => stop = resolve);
+
+        // Never emits, and only stops when returned.
+        const events: AsyncIterable<ornate.IServerEvent> = {
+            [Symbol.asyncIterator]: () => ({
+                next: async () => new Promise<IteratorResult<ornate.IServerEvent>>(() => undefined),
+                return: async () => {
+                    stop();
+                    return {done: true, value: undefined};
+                }
+            })
+        };
+
+        return new ornate.EventStreamResponse(events, {heartbeat: HEARTBEAT});
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        AuthService
+    ],
+    controllers: [
+        ProgressController
+    ]
+})
+class ProgressModule {}
+
+describe("Ornate App event streams", () => {
+
+    let app: ornate.App;
+    let server: http.Server;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [ProgressModule], parser: {}});
+        server = app.server.listen(0);
+    });
+
+    afterEach(() => {
+        server.close();
+    });
+
+    async function subscribe(
+        route: string,
+        headers: http.OutgoingHttpHeaders,
+        onData?: (request: http.ClientRequest) => void
+    ): Promise<[number, string]> {
+        const port = (server.address() as AddressInfo).port;
+
+        return new Promise((resolve, reject) => {
+            const request = http.get(`http://127.0.0.1:${port}${route}`, {headers}, (response: http.IncomingMessage) => {
+                let body = "";
+
+                response.setEncoding("utf-8");
+                response.on("data", (chunk: string) => {
+                    body += chunk;
+
+                    if (onData !== undefined) {
+                        onData(request);
+                        resolve([response.statusCode, body]);
+                    }
+                });
+                response.on("end", () => resolve([response.statusCode, body]));
+            });
+
+            request.on("error", reject);
+        });
+    }
+
+    it("Formats events, with heartbeats in between", async () => {
+        const [status, body] = await subscribe("/progress", {"x-token": "secret"});
+
+        expect(status).to.equal(httpStatus.OK);
+        expect(body.replace(/: heartbeat\n\n/g, "")).to.equal([
+            "id: 1\nevent: progress\ndata: {\"done\":1}\n\n",
+            "id: 2\nevent: progress\ndata: {\"done\":2}\n\n",
+            "id: 3\nevent: progress\ndata: {\"done\":3}\n\n",
+            "event: end\nretry: 0\ndata: line 1\ndata: line 2\n\n"
+        ].join(""));
+        expect(body).to.include(": heartbeat\n\n");
+    });
+
+    it("Resumes after the Last-Event-ID", async () => {
+        const [, body] = await subscribe("/progress", {"x-token": "secret", "last-event-id": "2"});
+
+        expect(body.replace(/: heartbeat\n\n/g, "")).to.equal([
+            "id: 3\nevent: progress\ndata: {\"done\":3}\n\n",
+            "event: end\nretry: 0\ndata: line 1\ndata: line 2\n\n"
+        ].join(""));
+    });
+
+    it("Keeps the authentication chain in front", async () => {
+        const [status] = await subscribe("/progress", {});
+
+        expect(status).to.equal(httpStatus.UNAUTHORIZED);
+    });
+
+    it("Stops the events when the client goes away", async () => {
+        const [, body] = await subscribe("/progress/endless", {"x-token": "secret"}, (request: http.ClientRequest) => request.destroy());
+
+        expect(body).to.equal("data: tick\n\n");
+
+        await stopped;
+    });
+
+    it("Stops idle events when the client goes away", async () => {
+        const [, body] = await subscribe("/progress/idle", {"x-token": "secret"}, (request: http.ClientRequest) => request.destroy());
+
+        expect(body).to.equal("data: ready\n\n");
+
+        await stopped;
+
+        await subscribe("/progress/silent", {"x-token": "secret"}, (request: http.ClientRequest) => request.destroy());
+        await stopped;
+    });
+
+});
@@ -0,0 +1,110 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as fs from "fs";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+import { ITestRequestOptions } from "../src/test";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+const BOUNDARY = "ornate-boundary";
+const MAX_SIZE = 8;
+const MAX_COUNT = 2;
+
+const uploads = new Array<ornate.UploadedFile>();
+
+@ornate.Controller("uploads")
+class UploadController {
+
+    @ornate.Post("avatar")
+    public async avatar(
+        @ornate.File("avatar", {required: true, maxSize: MAX_SIZE, types: ["image/*"]}) avatar: ornate.UploadedFile
+    ): Promise<ornate.JsonResponse<any>> {
+        uploads.push(avatar);
+
+        const content = await fs.promises.readFile(avatar.path, "utf-8");
+        return new ornate.JsonResponse({name: avatar.name, size: avatar.size, type: avatar.type, content});
+    }
+
+    @ornate.Post("documents")
+    public documents(
+        @ornate.Files("documents", {maxCount: MAX_COUNT}) documents: ornate.UploadedFile[]
+    ): ornate.JsonResponse<string[]> {
+        uploads.push(...documents);
+        return new ornate.JsonResponse(documents.map((d: ornate.UploadedFile) => d.name));
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        UploadController
+    ]
+})
+class UploadModule {}
+
+interface IPart {
+    readonly field: string;
+    readonly filename: string;
+    readonly type: string;
+    readonly content: string;
+}
+
+describe("Ornate App file uploads", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        uploads.length = 0;
+        app = new ornate.App({modules: [UploadModule], parser: {}});
+    });
+
+    function multipart(parts: IPart[]): ITestRequestOptions {
+        const body = parts.map((p: IPart) => [
+            `--${BOUNDARY}`,
+            `Content-Disposition: form-data; name="${p.field}"; filename="${p.filename}"`,
+            `Content-Type: ${p.type}`,
+            "",
+            p.content
+        ].join("\r\n")).concat(`--${BOUNDARY}--`, "").join("\r\n");
+
+        return {body, headers: {"content-type": `multipart/form-data; boundary=${BOUNDARY}`}};
+    }
+
+    async function reject(route: string, parts: IPart[]): Promise<void> {
+        await expect(app.getRouter().post(route, multipart(parts)))
+            .to.be.rejectedWith(Error).and.eventually.have.property("status", httpStatus.BAD_REQUEST);
+    }
+
+    it("Binds uploaded files and removes them afterwards", async () => {
+        const response = await app.getRouter().post("/uploads/avatar", multipart([{field: "avatar", filename: "me.png", type: "image/png", content: "png"}]));
+
+        expect(response.body).to.deep.equal({name: "me.png", size: 3, type: "image/png", content: "png"});
+        expect(fs.existsSync(uploads[0].path)).to.equal(false);
+    });
+
+    it("Binds every file of a field", async () => {
+        const response = await app.getRouter().post("/uploads/documents", multipart([
+            {field: "documents", filename: "a.txt", type: "text/plain", content: "a"},
+            {field: "documents", filename: "b.txt", type: "text/plain", content: "b"}
+        ]));
+
+        expect(response.body).to.deep.equal(["a.txt", "b.txt"]);
+        expect(uploads.every((u: ornate.UploadedFile) => !fs.existsSync(u.path))).to.equal(true);
+    });
+
+    it("Enforces the file limits of the action", async () => {
+        const image = {field: "avatar", filename: "me.png", type: "image/png", content: "png"};
+
+        await reject("/uploads/avatar", []);
+        await reject("/uploads/avatar", [{...image, content: "too large"}]);
+        await reject("/uploads/avatar", [{...image, type: "text/plain"}]);
+        await reject("/uploads/avatar", [image, image]);
+
+        const documents = ["a", "b", "c"].map((name: string) => ({field: "documents", filename: name, type: "text/plain", content: name}));
+
+        await reject("/uploads/documents", documents);
+    });
+
+});
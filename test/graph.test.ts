@@ -0,0 +1,120 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+@ornate.Service()
+class AuthService {
+
+    @ornate.Authentication("token")
+    public async token(): Promise<boolean> {
+        return true;
+    }
+
+    @ornate.Generic("audit")
+    public async audit(): Promise<void> {
+    }
+
+}
+
+@ornate.Service()
+class UserRepository {
+
+    constructor(authService: AuthService, @ornate.Inject("DATABASE_URL") url: string) {
+    }
+
+}
+
+@ornate.Controller("users")
+class UserController {
+
+    constructor(userRepository: UserRepository) {
+    }
+
+    @ornate.Authenticate(AuthService, "token")
+    @ornate.After(AuthService, "audit")
+    @ornate.Get(":id")
+    public get(
+        @ornate.Param("id") id: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(id);
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        AuthService
+    ],
+    exports: [
+        AuthService
+    ]
+})
+class AuthModule {}
+
+@ornate.Module({
+    route: "api",
+    modules: [
+        AuthModule
+    ],
+    services: [
+        UserRepository
+    ],
+    providers: [
+        {provides: "DATABASE_URL", useValue: "db://test"}
+    ],
+    controllers: [
+        UserController
+    ]
+})
+class UserModule {}
+
+describe("Ornate App graph", () => {
+
+    it("Describes modules, services and routes", () => {
+        const app = new ornate.App({modules: [UserModule]});
+        const graph = app.describe();
+
+        expect(graph.modules.map((m) => m.name)).to.deep.equal(["AuthModule", "UserModule"]);
+
+        const [authModule, userModule] = graph.modules;
+
+        expect(authModule.exports).to.deep.equal(["AuthService"]);
+        expect(authModule.services[0].middlewares).to.deep.equal([
+            {type: "authentication", name: "token"},
+            {type: "generic", name: "audit"}
+        ]);
+
+        expect(userModule.imports).to.deep.equal(["AuthModule"]);
+        expect(userModule.services).to.deep.equal([
+            {name: "UserRepository", lifetime: ornate.EServiceLifetime.SINGLETON, dependencies: ["AuthService", "DATABASE_URL"], middlewares: []}
+        ]);
+        expect(userModule.providers).to.deep.equal([{token: "DATABASE_URL", kind: "value", dependencies: []}]);
+        expect(userModule.controllers[0].dependencies).to.deep.equal(["UserRepository"]);
+        expect(userModule.controllers[0].actions).to.deep.equal([{
+            name: "UserController.get",
+            method: "GET",
+            route: "/api/users/:id",
+            authentication: [{service: "AuthService", name: "token"}],
+            authorization: [],
+            before: [],
+            after: [{service: "AuthService", name: "audit"}],
+            resolvers: [],
+            validators: []
+        }]);
+    });
+
+    it("Exports the graph as JSON and DOT", () => {
+        const graph = new ornate.App({modules: [UserModule]}).describe();
+
+        expect(JSON.parse(ornate.GraphExporter.toJson(graph))).to.deep.equal(graph);
+
+        const dot = ornate.GraphExporter.toDot(graph);
+
+        expect(dot).to.match(/^digraph ornate \{/);
+        expect(dot).to.contain("\"module:UserModule\" -> \"module:AuthModule\" [label=\"imports\"];");
+        expect(dot).to.contain("\"service:UserRepository\" -> \"service:AuthService\";");
+        expect(dot).to.contain("\"action:UserController.get\" -> \"service:AuthService\" [label=\"authentication: token\", style=dashed];");
+    });
+
+});
@@ -0,0 +1,506 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import chaiAsPromised from "chai-as-promised";
+import "reflect-metadata";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+@ornate.Service()
+class UserService {
+
+    public getName(): string {
+        return "user";
+    }
+
+}
+
+@ornate.Service()
+class AuditService {
+
+    constructor(userService: UserService) {
+    }
+
+}
+
+interface IAuditor {
+    audit(): string;
+}
+
+@ornate.Service()
+class LazyUserService {
+
+    private _auditService: IAuditor;
+
+    constructor(@ornate.Lazy(() => LazyAuditService) auditService: IAuditor) {
+        this._auditService = auditService;
+    }
+
+    public getName(): string {
+        return "user";
+    }
+
+    public audit(): string {
+        return this._auditService.audit();
+    }
+
+}
+
+@ornate.Service()
+class LazyAuditService {
+
+    private _userService: LazyUserService;
+
+    constructor(userService: LazyUserService) {
+        this._userService = userService;
+    }
+
+    public audit(): string {
+        return `audit: ${this._userService.getName()}`;
+    }
+
+}
+
+let requestServiceCount = 0;
+const destroyedRequestServices = new Array<number>();
+
+@ornate.Service({lifetime: ornate.EServiceLifetime.REQUEST})
+class RequestService {
+
+    public readonly id = ++requestServiceCount;
+
+    public async onDestroy(): Promise<void> {
+        destroyedRequestServices.push(this.id);
+    }
+
+}
+
+@ornate.Service({lifetime: ornate.EServiceLifetime.TRANSIENT})
+class TransientService {
+}
+
+@ornate.Service()
+class TransientConsumerService {
+
+    public readonly first: TransientService;
+    public readonly second: TransientService;
+
+    constructor(first: TransientService, second: TransientService) {
+        this.first = first;
+        this.second = second;
+    }
+
+}
+
+@ornate.Service()
+class RequestConsumerService {
+
+    private _requestService: RequestService;
+
+    constructor(requestService: RequestService) {
+        this._requestService = requestService;
+    }
+
+    public get id(): number {
+        return this._requestService.id;
+    }
+
+}
+
+@ornate.Controller("scope")
+class ScopeController {
+
+    private _requestService: RequestService;
+    private _consumerService: RequestConsumerService;
+
+    constructor(requestService: RequestService, consumerService: RequestConsumerService) {
+        this._requestService = requestService;
+        this._consumerService = consumerService;
+    }
+
+    @ornate.Get("")
+    public async get(): Promise<ornate.JsonResponse<number[]>> {
+        return new ornate.JsonResponse([this._requestService.id, this._consumerService.id]);
+    }
+
+}
+
+const GREETING = Symbol("greeting");
+const CONNECTION = Symbol("connection");
+
+interface IConnection {
+    readonly url: string;
+    readonly greeting: string;
+}
+
+abstract class Mailer {
+    public abstract send(): string;
+}
+
+class SmtpMailer extends Mailer {
+    public send(): string {
+        return "smtp";
+    }
+}
+
+@ornate.Service()
+class ProvidedService {
+
+    public readonly greeting: string;
+    public readonly mailer: Mailer;
+    public readonly connection: IConnection;
+
+    public connectionOnInit: string;
+
+    constructor(
+        @ornate.Inject(GREETING) greeting: string,
+        @ornate.Inject(Mailer) mailer: Mailer,
+        @ornate.Inject(CONNECTION) connection: IConnection
+    ) {
+        this.greeting = greeting;
+        this.mailer = mailer;
+        this.connection = connection;
+    }
+
+    public async onInit(): Promise<void> {
+        this.connectionOnInit = this.connection.url;
+    }
+
+}
+
+const DATABASE_URL = Symbol("database-url");
+
+@ornate.Service()
+class DatabaseUrlService {
+
+    public readonly url: string;
+
+    constructor(@ornate.Inject(DATABASE_URL) url: string) {
+        this.url = url;
+    }
+
+}
+
+@ornate.Service()
+class DatabaseUrlReaderService {
+
+    public url: string;
+
+    public async onInit(app: ornate.App): Promise<void> {
+        this.url = app.injector.getToken(DATABASE_URL);
+    }
+
+}
+
+@ornate.Service()
+class PrivateService {
+}
+
+@ornate.Service()
+class PublicService {
+
+    constructor(privateService: PrivateService) {
+    }
+
+}
+
+@ornate.Service()
+class ConsumerService {
+
+    constructor(publicService: PublicService) {
+    }
+
+}
+
+@ornate.Service()
+class IntruderService {
+
+    constructor(privateService: PrivateService) {
+    }
+
+}
+
+const MAIL_OPTIONS = Symbol("mail-options");
+
+interface IMailOptions {
+    readonly from: string;
+}
+
+@ornate.Service()
+class MailService {
+
+    public readonly from: string;
+
+    constructor(@ornate.Inject(MAIL_OPTIONS) options: IMailOptions) {
+        this.from = options.from;
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        MailService
+    ],
+    exports: [
+        MailService
+    ]
+})
+class MailModule {
+
+    public static forRoot(options: IMailOptions): ornate.IDynamicModule {
+        return {
+            module: MailModule,
+            providers: [
+                {provides: MAIL_OPTIONS, useValue: options}
+            ]
+        };
+    }
+
+}
+
+@ornate.Service()
+class NewsletterService {
+
+    public readonly mailService: MailService;
+
+    constructor(mailService: MailService) {
+        this.mailService = mailService;
+    }
+
+}
+
+@ornate.Module({
+    modules: [
+        MailModule.forRoot({from: "newsletter@example.com"})
+    ],
+    services: [
+        NewsletterService
+    ]
+})
+class NewsletterModule {}
+
+// Close the cycle: UserService -> AuditService -> UserService.
+Reflect.defineMetadata("design:paramtypes", [AuditService], UserService);
+
+@ornate.Module({
+    services: [
+        UserService,
+        AuditService
+    ]
+})
+class CircularModule {}
+
+@ornate.Module({
+    services: [
+        LazyUserService,
+        LazyAuditService
+    ]
+})
+class LazyModule {}
+
+@ornate.Module({
+    route: "lifetime",
+    services: [
+        RequestService,
+        RequestConsumerService,
+        TransientService,
+        TransientConsumerService
+    ],
+    controllers: [
+        ScopeController
+    ]
+})
+class LifetimeModule {}
+
+@ornate.Module({
+    services: [
+        ProvidedService
+    ],
+    providers: [
+        {provides: GREETING, useValue: "hello"},
+        {provides: "signature", useValue: "regards"},
+        {provides: "database", useFactory: async (): Promise<object> => ({name: "db"})},
+        {provides: Mailer, useClass: SmtpMailer},
+        {
+            provides: CONNECTION,
+            useFactory: async (greeting: string): Promise<IConnection> => ({url: "db://localhost", greeting}),
+            inject: [GREETING]
+        }
+    ]
+})
+class ProviderModule {}
+
+@ornate.Module({
+    services: [
+        DatabaseUrlService
+    ],
+    providers: [
+        {provides: DATABASE_URL, useFactory: async (): Promise<string> => "postgres://x"}
+    ]
+})
+class DatabaseUrlModule {}
+
+@ornate.Module({
+    services: [
+        DatabaseUrlReaderService
+    ],
+    providers: [
+        {provides: DATABASE_URL, useFactory: async (): Promise<string> => "postgres://x"}
+    ]
+})
+class DatabaseUrlReaderModule {}
+
+@ornate.Service()
+class LegacyService {}
+
+@ornate.Module({
+    services: [
+        LegacyService
+    ],
+    initialize: [
+        LegacyService
+    ]
+})
+class LegacyModule {}
+
+@ornate.Module({
+    services: [
+        PrivateService,
+        PublicService
+    ],
+    exports: [
+        PublicService
+    ]
+})
+class LibraryModule {}
+
+@ornate.Module({
+    modules: [
+        LibraryModule
+    ],
+    services: [
+        ConsumerService
+    ]
+})
+class ConsumerModule {}
+
+@ornate.Module({
+    modules: [
+        LibraryModule
+    ],
+    services: [
+        IntruderService
+    ]
+})
+class IntruderModule {}
+
+describe("Ornate AppInjector", () => {
+
+    it("Fails on circular dependencies reporting the cycle", () => {
+        expect(() => new ornate.App({modules: [CircularModule]}))
+            .to.throw("UserService -> AuditService -> UserService");
+    });
+
+    it("Breaks circular dependencies with @Lazy", () => {
+        const app = new ornate.App({modules: [LazyModule]});
+        const userService = app.injector.getService(LazyUserService);
+
+        expect(userService.audit()).to.equal("audit: user");
+        expect(app.injector.getService(LazyAuditService)).to.be.instanceOf(LazyAuditService);
+    });
+
+    it("Creates transient services on each injection", () => {
+        const app = new ornate.App({modules: [LifetimeModule]});
+        const consumer = app.injector.getService(TransientConsumerService);
+
+        expect(consumer.first).to.be.instanceOf(TransientService);
+        expect(consumer.first).to.not.equal(consumer.second);
+    });
+
+    it("Creates request scoped services per request and destroys them afterwards", async () => {
+        const app = new ornate.App({modules: [LifetimeModule], parser: {}});
+        const router = app.getRouter();
+
+        const first = await router.get<number[]>("/lifetime/scope", {});
+        const second = await router.get<number[]>("/lifetime/scope", {});
+
+        expect(first.body[0]).to.equal(first.body[1]);
+        expect(second.body[0]).to.equal(second.body[1]);
+        expect(first.body[0]).to.not.equal(second.body[0]);
+        expect(destroyedRequestServices).to.deep.equal([first.body[0], second.body[0]]);
+    });
+
+    it("Fails using request scoped services outside of a request", () => {
+        const app = new ornate.App({modules: [LifetimeModule]});
+
+        expect(() => app.injector.getService(RequestConsumerService).id).to.throw("outside of a request");
+    });
+
+    it("Injects value, class and async factory providers by token", async () => {
+        const app = new ornate.App({modules: [ProviderModule]});
+        const service = app.injector.getService(ProvidedService);
+
+        expect(service.greeting).to.equal("hello");
+        expect(service.mailer.send()).to.equal("smtp");
+        expect(() => service.connection.url).to.throw("before being resolved");
+
+        await app.run();
+
+        expect(service.connectionOnInit).to.equal("db://localhost");
+        expect(service.connection.greeting).to.equal("hello");
+        expect(app.injector.getToken<IConnection>(CONNECTION).url).to.equal("db://localhost");
+    });
+
+    it("Gets value and factory providers by name", async () => {
+        const app = new ornate.App({modules: [ProviderModule, ConsumerModule]});
+        await app.run();
+
+        expect(app.injector.getProvider("signature")).to.equal("regards");
+        expect(app.injector.getProvider<any>("database").name).to.equal("db");
+
+        const consumerModule = app.modules.find((m) => m.name === "ConsumerModule");
+
+        expect(() => consumerModule.injector.getProvider("signature")).to.throw(/Provider .*signature.* is not visible from module .*ConsumerModule/);
+    });
+
+    it("Fails at startup injecting async providers of primitive values", async () => {
+        const app = new ornate.App({modules: [DatabaseUrlModule]});
+
+        await expect(app.run()).to.be.rejectedWith(/Async provider .*database-url.* was injected before being resolved, which requires an object \(got: string\)/);
+
+        const readerApp = new ornate.App({modules: [DatabaseUrlReaderModule]});
+        await readerApp.run();
+
+        expect(readerApp.injector.getService(DatabaseUrlReaderService).url).to.equal("postgres://x");
+    });
+
+    it("Warns about the deprecated initialize parameter", () => {
+        const warnings = new Array<string>();
+        const log = (): void => undefined;
+        const logger = {trace: log, debug: log, info: log, error: log, warn: (...args: any[]) => warnings.push(args.join(" "))};
+
+        expect(new ornate.App({modules: [LegacyModule], logger}).modules).to.have.lengthOf(1);
+        expect(warnings).to.have.lengthOf(1);
+        expect(warnings[0]).to.include("deprecated initialize parameter");
+    });
+
+    it("Resolves services exported by imported modules", () => {
+        const app = new ornate.App({modules: [ConsumerModule]});
+        const consumerModule = app.modules.find((m) => m.name === "ConsumerModule");
+
+        expect(consumerModule.injector.getService(PublicService)).to.be.instanceOf(PublicService);
+        expect(() => consumerModule.injector.getService(PrivateService)).to.throw("Service not found");
+    });
+
+    it("Fails using services not exported by imported modules", () => {
+        expect(() => new ornate.App({modules: [IntruderModule]}))
+            .to.throw(/Module .*IntruderModule.* cannot use service .*PrivateService/);
+    });
+
+    it("Registers dynamic modules with bound options", () => {
+        const app = new ornate.App({modules: [NewsletterModule]});
+
+        expect(app.injector.getService(NewsletterService).mailService.from).to.equal("newsletter@example.com");
+    });
+
+});
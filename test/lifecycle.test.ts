@@ -0,0 +1,91 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import chaiAsPromised from "chai-as-promised";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+const calls = new Array<string>();
+
+@ornate.Service()
+class DatabaseService {
+
+    public async onInit(): Promise<void> {
+        calls.push("init:database");
+    }
+
+    public async onDestroy(): Promise<void> {
+        calls.push("destroy:database");
+    }
+
+}
+
+@ornate.Service()
+class UserRepository {
+
+    constructor(databaseService: DatabaseService) {
+    }
+
+    public async onInit(): Promise<void> {
+        calls.push("init:repository");
+    }
+
+    public async onDestroy(): Promise<void> {
+        calls.push("destroy:repository");
+    }
+
+}
+
+@ornate.Service()
+class HangingService {
+
+    public async onInit(): Promise<void> {
+        return new Promise<void>(() => undefined);
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        UserRepository,
+        DatabaseService
+    ]
+})
+class RepositoryModule {}
+
+@ornate.Module({
+    services: [
+        HangingService
+    ]
+})
+class HangingModule {}
+
+describe("Ornate App lifecycle", () => {
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it("Starts services in dependency order and stops them in reverse", async () => {
+        const app = new ornate.App({modules: [RepositoryModule]});
+
+        await app.run();
+        await app.stop();
+
+        expect(calls).to.deep.equal([
+            "init:database",
+            "init:repository",
+            "destroy:repository",
+            "destroy:database"
+        ]);
+    });
+
+    it("Reports services exceeding the hook timeout", async () => {
+        const app = new ornate.App({modules: [HangingModule], lifecycle: {initTimeout: 10}});
+
+        const err = await expect(app.run()).to.be.rejectedWith(ornate.LifecycleError);
+
+        expect(err.data).to.deep.equal([{service: "HangingService", hook: "onInit", reason: "onInit timed out after 10ms"}]);
+    });
+
+});
@@ -0,0 +1,98 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const calls = new Array<string>();
+
+@ornate.Service()
+class AuditService {
+
+    @ornate.Generic("audit")
+    public async audit(@ornate.Method() method: string): Promise<void> {
+        calls.push(`audit:${method}`);
+    }
+
+}
+
+@ornate.Controller("items")
+class ItemController {
+
+    @ornate.Get(":id")
+    public get(
+        @ornate.Param("id") id: string
+    ): ornate.TextResponse {
+        calls.push("get");
+        return new ornate.TextResponse(`item ${id}`);
+    }
+
+    @ornate.Before(AuditService, "audit")
+    @ornate.Patch(":id")
+    public patch(
+        @ornate.Param("id") id: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(`patched ${id}`);
+    }
+
+    @ornate.Get("")
+    public list(): ornate.TextResponse {
+        calls.push("list");
+        return new ornate.TextResponse("items");
+    }
+
+    @ornate.Head("")
+    public head(): ornate.TextResponse {
+        calls.push("head");
+        return new ornate.TextResponse("", {"X-Count": "0"});
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        AuditService
+    ],
+    controllers: [
+        ItemController
+    ]
+})
+class ItemModule {}
+
+describe("Ornate App request methods", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        calls.length = 0;
+        app = new ornate.App({modules: [ItemModule], parser: {}});
+    });
+
+    it("Runs PATCH actions through the middleware chain", async () => {
+        const response = await app.getRouter().patch("/items/:id", {params: {id: "1"}});
+
+        expect(response.body).to.equal("patched 1");
+        expect(calls).to.deep.equal(["audit:PATCH"]);
+    });
+
+    it("Answers HEAD requests with GET actions", async () => {
+        const response = await app.getRouter().head("/items/:id", {params: {id: "1"}});
+
+        expect(response.body).to.equal("");
+        expect(response.headers["content-length"]).to.equal("6");
+        expect(calls).to.deep.equal(["get"]);
+    });
+
+    it("Prefers explicit HEAD actions", async () => {
+        const response = await app.getRouter().head("/items", {});
+
+        expect(response.headers["x-count"]).to.equal("0");
+        expect(calls).to.deep.equal(["head"]);
+    });
+
+    it("Lists the allowed methods of a route on OPTIONS", async () => {
+        const response = await app.getRouter().options("/items/:id", {params: {id: "1"}});
+
+        expect(response.headers.allow).to.equal("HEAD, GET, PATCH");
+    });
+
+});
@@ -0,0 +1,225 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+const calls = new Array<string>();
+
+@ornate.Service()
+class AuthService {
+
+    @ornate.Authentication("token")
+    public async token(@ornate.Header("x-token") token: string): Promise<boolean> {
+        calls.push("authenticate");
+        return token === "secret";
+    }
+
+    @ornate.Policy("admin")
+    public async admin(@ornate.Header("x-role") role: string): Promise<boolean> {
+        calls.push("authorize");
+        return role === "admin";
+    }
+
+    @ornate.Generic("trace")
+    public async trace(label: string): Promise<void> {
+        calls.push(label);
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        AuthService
+    ],
+    exports: [
+        AuthService
+    ]
+})
+class AuthModule {}
+
+@ornate.Authorize(AuthService, "admin")
+@ornate.Before(AuthService, "trace", "before:controller")
+@ornate.Controller("admin")
+class AdminController {
+
+    @ornate.Before(AuthService, "trace", "before:action")
+    @ornate.Get("")
+    public index(): ornate.TextResponse {
+        calls.push("action");
+        return new ornate.TextResponse("admin");
+    }
+
+    @ornate.Public()
+    @ornate.Get("status")
+    public status(): ornate.TextResponse {
+        calls.push("action");
+        return new ornate.TextResponse("ok");
+    }
+
+}
+
+@ornate.Module({
+    route: "admin",
+    modules: [
+        AuthModule
+    ],
+    controllers: [
+        AdminController
+    ],
+    after: [
+        {service: AuthService, name: "trace", params: ["after:admin"]}
+    ]
+})
+class AdminModule {}
+
+@ornate.Module({
+    route: "api",
+    modules: [
+        AuthModule,
+        AdminModule
+    ],
+    authenticate: [
+        {service: AuthService, name: "token"}
+    ],
+    before: [
+        {service: AuthService, name: "trace", params: ["before:api"]}
+    ],
+    after: [
+        {service: AuthService, name: "trace", params: ["after:api"]}
+    ]
+})
+class ApiModule {}
+
+@ornate.Controller("secure")
+class SecureController {
+
+    @ornate.Get("")
+    public index(): ornate.TextResponse {
+        calls.push("action");
+        return new ornate.TextResponse("secure");
+    }
+
+}
+
+@ornate.Module({
+    modules: [
+        AuthModule
+    ],
+    controllers: [
+        SecureController
+    ],
+    authenticate: [
+        {service: AuthService, name: "token"}
+    ]
+})
+class SecureModule {
+
+    public static forRoot(label: string): ornate.IDynamicModule {
+        return {
+            module: SecureModule,
+            before: [
+                {service: AuthService, name: "trace", params: [label]}
+            ]
+        };
+    }
+
+}
+
+@ornate.Controller("shared")
+class SharedController {
+
+    @ornate.Get("")
+    public index(): ornate.TextResponse {
+        return new ornate.TextResponse("shared");
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        SharedController
+    ]
+})
+class SharedModule {}
+
+@ornate.Module({
+    modules: [
+        AuthModule,
+        SharedModule
+    ],
+    authenticate: [
+        {service: AuthService, name: "token"}
+    ]
+})
+class SecuredSharedModule {}
+
+@ornate.Module({
+    modules: [
+        SharedModule
+    ]
+})
+class PlainSharedModule {}
+
+describe("Ornate App inherited middlewares", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        calls.length = 0;
+        app = new ornate.App({modules: [ApiModule], parser: {}});
+    });
+
+    it("Runs module and controller middlewares around the action", async () => {
+        await app.getRouter().get("/api/admin/admin", {headers: {"x-token": "secret", "x-role": "admin"}});
+
+        expect(calls).to.deep.equal([
+            "authenticate",
+            "authorize",
+            "before:api",
+            "before:controller",
+            "before:action",
+            "action",
+            "after:admin",
+            "after:api"
+        ]);
+    });
+
+    it("Rejects requests failing an inherited middleware", async () => {
+        const err = await expect(app.getRouter().get("/api/admin/admin", {headers: {"x-role": "admin"}})).to.be.rejectedWith(Error);
+
+        expect(err.status).to.equal(httpStatus.UNAUTHORIZED);
+    });
+
+    it("Skips inherited authentication and authorization on public actions", async () => {
+        const response = await app.getRouter().get("/api/admin/admin/status", {});
+
+        expect(response.body).to.equal("ok");
+        expect(calls).to.deep.equal(["before:api", "before:controller", "action", "after:admin", "after:api"]);
+    });
+
+    it("Keeps the middlewares of dynamic module definitions", async () => {
+        const dynamicApp = new ornate.App({modules: [SecureModule.forRoot("before:secure")], parser: {}});
+        const err = await expect(dynamicApp.getRouter().get("/secure", {})).to.be.rejectedWith(Error);
+
+        expect(err.status).to.equal(httpStatus.UNAUTHORIZED);
+
+        calls.length = 0;
+        const response = await dynamicApp.getRouter().get("/secure", {headers: {"x-token": "secret"}});
+
+        expect(response.body).to.equal("secure");
+        expect(calls).to.deep.equal(["authenticate", "before:secure", "action"]);
+    });
+
+    it("Fails importing a module with controllers under different middlewares", async () => {
+        expect(() => new ornate.App({modules: [SharedModule, SecuredSharedModule]}))
+            .to.throw(/Module .*SharedModule.* has controllers and is imported with different routes or middlewares/);
+
+        const sharedApp = new ornate.App({modules: [SharedModule, PlainSharedModule], parser: {}});
+
+        expect((await sharedApp.getRouter().get("/shared", {})).body).to.equal("shared");
+    });
+
+});
@@ -0,0 +1,126 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import chaiAsPromised from "chai-as-promised";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+const ROLLBACK_COUNT = 2;
+
+const calls = new Array<string>();
+
+@ornate.Migration("002-add-email")
+class AddEmailMigration {
+
+    public async up(): Promise<void> {
+        calls.push("up:002");
+    }
+
+    public async down(): Promise<void> {
+        calls.push("down:002");
+    }
+
+}
+
+@ornate.Migration("001-create-users")
+class CreateUsersMigration {
+
+    public async up(): Promise<void> {
+        calls.push("up:001");
+    }
+
+    public async down(): Promise<void> {
+        calls.push("down:001");
+    }
+
+}
+
+@ornate.Migration("003-broken")
+class BrokenMigration {
+
+    public async up(): Promise<void> {
+        throw new Error("column exists");
+    }
+
+    public async down(): Promise<void> {
+    }
+
+}
+
+@ornate.Module({
+    migrations: [
+        AddEmailMigration,
+        CreateUsersMigration
+    ]
+})
+class UserModule {}
+
+@ornate.Module({
+    migrations: [
+        BrokenMigration
+    ]
+})
+class BrokenModule {}
+
+describe("Ornate App migrations", () => {
+
+    let directory: string;
+    let file: string;
+
+    beforeEach(() => {
+        calls.length = 0;
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), "ornate-migrations-"));
+        file = path.join(directory, "migrations.json");
+    });
+
+    afterEach(() => {
+        fs.rmSync(directory, {recursive: true});
+    });
+
+    it("Applies pending migrations in name order and records them", async () => {
+        const app = new ornate.App({modules: [UserModule], migrations: {store: new ornate.FileMigrationStore(file)}});
+
+        expect(await app.getPendingMigrations()).to.deep.equal(["001-create-users", "002-add-email"]);
+        expect(await app.migrate()).to.deep.equal(["001-create-users", "002-add-email"]);
+        expect(await app.migrate()).to.deep.equal([]);
+
+        expect(calls).to.deep.equal(["up:001", "up:002"]);
+        expect(JSON.parse(fs.readFileSync(file, "utf-8")).map((m: ornate.IMigrationState) => m.name))
+            .to.deep.equal(["001-create-users", "002-add-email"]);
+        expect(fs.existsSync(`${file}.lock`)).to.equal(false);
+    });
+
+    it("Rolls back the last migrations", async () => {
+        const app = new ornate.App({modules: [UserModule], migrations: {store: new ornate.FileMigrationStore(file)}});
+
+        await app.migrate();
+
+        expect(await app.rollback(ROLLBACK_COUNT)).to.deep.equal(["002-add-email", "001-create-users"]);
+        expect(calls).to.deep.equal(["up:001", "up:002", "down:002", "down:001"]);
+        expect(await app.getPendingMigrations()).to.deep.equal(["001-create-users", "002-add-email"]);
+    });
+
+    it("Keeps the migrations applied before a failure", async () => {
+        const app = new ornate.App({modules: [BrokenModule, UserModule], migrations: {store: new ornate.FileMigrationStore(file)}});
+
+        await expect(app.migrate()).to.be.rejectedWith(ornate.MigrationError, "003-broken");
+
+        expect(await app.getPendingMigrations()).to.deep.equal(["003-broken"]);
+    });
+
+    it("Refuses to migrate while locked", async () => {
+        const store = new ornate.FileMigrationStore(file);
+        const app = new ornate.App({modules: [UserModule], migrations: {store}});
+
+        await store.lock();
+
+        await expect(app.migrate()).to.be.rejectedWith(ornate.MigrationError, "locked");
+        expect(calls).to.deep.equal([]);
+
+        await store.unlock();
+    });
+
+});
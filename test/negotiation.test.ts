@@ -0,0 +1,124 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+import { IApiResponse } from "../src/test";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+interface IItem {
+    readonly id: number;
+    readonly name: string;
+}
+
+const ITEMS: IItem[] = [{id: 1, name: "pen"}, {id: 2, name: "ink"}];
+
+const created: IItem[] = [];
+
+const csv: ornate.ISerializer = {
+    serialize: (items: IItem[]) => ["id,name", ...items.map((i: IItem) => `${i.id},${i.name}`)].join("\n")
+};
+
+const xml: ornate.ISerializer = {
+    serialize: (items: IItem[]) => `<items>${items.map((i: IItem) => `<item id="${i.id}">${i.name}</item>`).join("")}</items>`
+};
+
+@ornate.Controller("items")
+class ItemController {
+
+    @ornate.Get("")
+    public list(): ornate.DataResponse<IItem[]> {
+        return new ornate.DataResponse(ITEMS);
+    }
+
+    @ornate.Produces("text/csv")
+    @ornate.Get("export")
+    public export(): ornate.DataResponse<IItem[]> {
+        return new ornate.DataResponse(ITEMS);
+    }
+
+    @ornate.Produces("text/csv")
+    @ornate.Post("import")
+    public import(): ornate.DataResponse<IItem[]> {
+        created.push(...ITEMS);
+        return new ornate.DataResponse(created);
+    }
+
+}
+
+@ornate.Produces("application/yaml")
+@ornate.Controller("reports")
+class ReportController {
+
+    @ornate.Get("")
+    public list(): ornate.DataResponse<IItem[]> {
+        return new ornate.DataResponse(ITEMS);
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        ItemController
+    ]
+})
+class ItemModule {}
+
+@ornate.Module({
+    controllers: [
+        ReportController
+    ]
+})
+class ReportModule {}
+
+describe("Ornate App content negotiation", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [ItemModule], parser: {}, serializers: {"text/csv": csv, "application/xml": xml}});
+    });
+
+    async function request(route: string, accept?: string): Promise<IApiResponse<any>> {
+        return app.getRouter().get(route, {headers: accept !== undefined ? {accept} : {}});
+    }
+
+    it("Serializes to the media type the request accepts", async () => {
+        const json = await request("/items", "application/json");
+
+        expect(json.headers["content-type"]).to.equal("application/json; charset=utf-8");
+        expect(json.headers.vary).to.equal("Accept");
+        expect(json.body).to.deep.equal(ITEMS);
+
+        const xmlResponse = await request("/items", "text/html, application/xml;q=0.9, application/json;q=0.5");
+
+        expect(xmlResponse.headers["content-type"]).to.equal("application/xml");
+        expect(xmlResponse.body).to.equal("<items><item id=\"1\">pen</item><item id=\"2\">ink</item></items>");
+    });
+
+    it("Defaults to the first offered media type", async () => {
+        expect((await request("/items")).headers["content-type"]).to.equal("application/json; charset=utf-8");
+        expect((await request("/items/export", "*/*")).body).to.equal("id,name\n1,pen\n2,ink");
+    });
+
+    it("Answers 406 when no offered media type is acceptable", async () => {
+        await expect(request("/items", "text/html")).to.be.rejectedWith(Error).and.eventually.have.property("status", httpStatus.NOT_ACCEPTABLE);
+        await expect(request("/items/export", "application/json"))
+            .to.be.rejectedWith(Error).and.eventually.have.property("status", httpStatus.NOT_ACCEPTABLE);
+    });
+
+    it("Answers 406 before running an action that produces other media types", async () => {
+        created.length = 0;
+
+        await expect(app.getRouter().post("/items/import", {headers: {accept: "application/json"}}))
+            .to.be.rejectedWith(Error).and.eventually.have.property("status", httpStatus.NOT_ACCEPTABLE);
+        expect(created).to.deep.equal([]);
+    });
+
+    it("Requires serializers for the offered media types", () => {
+        expect(() => new ornate.App({modules: [ReportModule]}))
+            .to.throw(ornate.StartupError, "ReportController.list (produces application/yaml but no serializer registered)");
+    });
+
+});
@@ -0,0 +1,120 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+@ornate.Controller("items")
+class ItemController {
+
+    @ornate.Post("")
+    public create(): ornate.CreatedResponse<any> {
+        return new ornate.CreatedResponse("/items/1", {id: 1});
+    }
+
+    @ornate.Post("import")
+    public import(): ornate.AcceptedResponse<any> {
+        return new ornate.AcceptedResponse({job: "j1"});
+    }
+
+    @ornate.Delete(":id")
+    public delete(): ornate.NoContentResponse {
+        return new ornate.NoContentResponse();
+    }
+
+    @ornate.Put(":id")
+    public update(): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse({ignored: true}, {"Content-Type": "application/json"}).withStatus(httpStatus.NO_CONTENT);
+    }
+
+    @ornate.Get("busy")
+    public busy(): ornate.TextResponse {
+        return new ornate.TextResponse("try later", {"Retry-After": "1"}).withStatus(httpStatus.SERVICE_UNAVAILABLE);
+    }
+
+    @ornate.Get("old")
+    public old(): ornate.MovedPermanentlyResponse {
+        return new ornate.MovedPermanentlyResponse("/items/new");
+    }
+
+    @ornate.Get("moved")
+    public moved(): ornate.RedirectResponse {
+        return new ornate.RedirectResponse("/items/new");
+    }
+
+    @ornate.Post("temporary")
+    public temporary(): ornate.TemporaryRedirectResponse {
+        return new ornate.TemporaryRedirectResponse("/items");
+    }
+
+    @ornate.Post("permanent")
+    public permanent(): ornate.PermanentRedirectResponse {
+        return new ornate.PermanentRedirectResponse("/items");
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        ItemController
+    ]
+})
+class ItemModule {}
+
+describe("Ornate App response statuses", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [ItemModule], parser: {}});
+    });
+
+    it("Sends created and accepted responses", async () => {
+        const created = await app.getRouter().post("/items", {});
+
+        expect(created.status).to.equal(httpStatus.CREATED);
+        expect(created.headers.location).to.equal("/items/1");
+        expect(created.body).to.deep.equal({id: 1});
+
+        const accepted = await app.getRouter().post("/items/import", {});
+
+        expect(accepted.status).to.equal(httpStatus.ACCEPTED);
+        expect(accepted.body).to.deep.equal({job: "j1"});
+    });
+
+    it("Never sends a body or a content type with 204", async () => {
+        for (const method of ["delete", "put"]) {
+            const response = await app.getRouter()[method]("/items/:id", {params: {id: "1"}});
+
+            expect(response.status).to.equal(httpStatus.NO_CONTENT);
+            expect(response.headers).to.not.have.property("content-type");
+            expect(response.body).to.equal(undefined);
+        }
+    });
+
+    it("Sends any status with any body", async () => {
+        const err = await expect(app.getRouter().get("/items/busy", {})).to.be.rejectedWith(Error, "try later");
+
+        expect(err.status).to.equal(httpStatus.SERVICE_UNAVAILABLE);
+        expect(err.headers["retry-after"]).to.equal("1");
+    });
+
+    it("Redirects with the status of the response", async () => {
+        const redirects: [string, string, number][] = [
+            ["get", "/items/old", httpStatus.MOVED_PERMANENTLY],
+            ["get", "/items/moved", httpStatus.MOVED_TEMPORARILY],
+            ["post", "/items/temporary", httpStatus.TEMPORARY_REDIRECT],
+            ["post", "/items/permanent", httpStatus.PERMANENT_REDIRECT]
+        ];
+
+        for (const [method, route, status] of redirects) {
+            const response = await app.getRouter()[method](route, {redirect: "manual"});
+
+            expect(response.status).to.equal(status);
+            expect(response.headers.location).to.match(/\/items(\/new)?$/);
+        }
+    });
+
+});
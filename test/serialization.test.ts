@@ -0,0 +1,118 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+const CREATED_AT = "2020-01-02T00:00:00.000Z";
+
+class Address {
+
+    public city: string;
+
+    @ornate.Exclude()
+    public geo: string;
+
+    constructor(city: string, geo: string) {
+        this.city = city;
+        this.geo = geo;
+    }
+
+}
+
+class User {
+
+    public id: number;
+
+    public name: string;
+
+    @ornate.Exclude()
+    public passwordHash: string;
+
+    @ornate.Expose("admin")
+    public email: string;
+
+    @ornate.Rename("created_at")
+    public createdAt: Date;
+
+    @ornate.Transform((roles: string[]) => roles.join(","))
+    public roles: string[];
+
+    public addresses: Address[];
+
+    @ornate.Expose()
+    public get label(): string {
+        return `#${this.id} ${this.name}`;
+    }
+
+    constructor(id: number, name: string) {
+        this.id = id;
+        this.name = name;
+        this.passwordHash = "hash";
+        this.email = `${name}@example.com`;
+        this.createdAt = new Date(CREATED_AT);
+        this.roles = ["reader", "writer"];
+        this.addresses = [new Address("London", "51.5,-0.1")];
+    }
+
+}
+
+@ornate.Controller("users")
+class UserController {
+
+    @ornate.Get("")
+    public list(): ornate.JsonResponse<any> {
+        return new ornate.JsonResponse({total: 1, users: [new User(1, "ada")]});
+    }
+
+    @ornate.Groups("admin")
+    @ornate.Get(":id")
+    public get(): ornate.JsonResponse<User> {
+        return new ornate.JsonResponse(new User(1, "ada"));
+    }
+
+    @ornate.Groups("admin")
+    @ornate.Get(":id/data")
+    public data(): ornate.DataResponse<User> {
+        return new ornate.DataResponse(new User(1, "ada"));
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        UserController
+    ]
+})
+class UserModule {}
+
+describe("Ornate App response shaping", () => {
+
+    const publicView = {
+        id: 1,
+        name: "ada",
+        created_at: CREATED_AT,
+        roles: "reader,writer",
+        addresses: [{city: "London"}],
+        label: "#1 ada"
+    };
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [UserModule], parser: {}});
+    });
+
+    it("Excludes, renames and transforms fields of nested objects and arrays", async () => {
+        const response = await app.getRouter().get("/users", {});
+
+        expect(response.body).to.deep.equal({total: 1, users: [publicView]});
+    });
+
+    it("Exposes the fields of the action groups", async () => {
+        const router = app.getRouter();
+
+        expect((await router.get("/users/:id", {params: {id: "1"}})).body).to.deep.equal({...publicView, email: "ada@example.com"});
+        expect((await router.get("/users/:id/data", {params: {id: "1"}})).body).to.deep.equal({...publicView, email: "ada@example.com"});
+    });
+
+});
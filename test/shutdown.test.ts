@@ -0,0 +1,165 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as fetch from "node-fetch";
+import * as http from "http";
+import * as httpStatus from "http-status-codes";
+import chaiAsPromised from "chai-as-promised";
+import { AddressInfo, Socket } from "net";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+const SLOW_ACTION_DELAY = 100;
+const SETTLE_DELAY = 50;
+const DRAIN_DELAY = 100;
+const DEADLINE = 5000;
+
+const calls = new Array<string>();
+
+@ornate.Service()
+class ResourceService {
+
+    public async onDestroy(): Promise<void> {
+        calls.push("destroy");
+    }
+
+}
+
+@ornate.Controller("slow")
+class SlowController {
+
+    constructor(resourceService: ResourceService) {
+    }
+
+    @ornate.Get(":delay")
+    public async slow(
+        @ornate.Param("delay") delay: string
+    ): Promise<ornate.TextResponse> {
+        await new Promise((resolve) => setTimeout(resolve, parseInt(delay, 10)));
+        calls.push("action");
+
+        return new ornate.TextResponse("done");
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        ResourceService
+    ],
+    controllers: [
+        SlowController
+    ]
+})
+class ShutdownModule {}
+
+describe("Ornate App graceful shutdown", () => {
+
+    beforeEach(() => {
+        calls.length = 0;
+    });
+
+    it("Lets in-flight actions finish before stopping services", async () => {
+        const app = new ornate.App({modules: [ShutdownModule], parser: {}, shutdown: {timeout: 1000, signals: []}});
+        await app.listen("127.0.0.1", 0);
+
+        const port = (app.server.address() as AddressInfo).port;
+        const response = fetch.default(`http://127.0.0.1:${port}/slow/${SLOW_ACTION_DELAY}`);
+
+        // Let the request reach the action.
+        await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY));
+        await app.close();
+
+        expect(app.draining).to.equal(true);
+        expect(await (await response).text()).to.equal("done");
+        expect(calls).to.deep.equal(["action", "destroy"]);
+    });
+
+    it("Closes connections still open after the deadline", async () => {
+        const app = new ornate.App({modules: [ShutdownModule], parser: {}, shutdown: {timeout: 10, signals: []}});
+        await app.listen("127.0.0.1", 0);
+
+        const port = (app.server.address() as AddressInfo).port;
+        const response = fetch.default(`http://127.0.0.1:${port}/slow/${SLOW_ACTION_DELAY}`);
+
+        await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY));
+        await app.close();
+
+        await expect(response).to.be.rejected;
+        expect(calls).to.deep.equal(["destroy"]);
+    });
+
+    it("Reports draining on /healthcheck during the drain delay", async () => {
+        const app = new ornate.App({modules: [ShutdownModule], parser: {}, shutdown: {drainDelay: DRAIN_DELAY, signals: []}});
+        await app.listen("127.0.0.1", 0);
+
+        const port = (app.server.address() as AddressInfo).port;
+        const healthy = await fetch.default(`http://127.0.0.1:${port}/healthcheck`);
+
+        expect(healthy.status).to.equal(httpStatus.OK);
+        expect(await healthy.text()).to.equal("backend: ok\n");
+
+        const closing = app.close();
+        await new Promise((resolve) => setTimeout(resolve, SETTLE_DELAY));
+
+        const draining = await fetch.default(`http://127.0.0.1:${port}/healthcheck`);
+
+        expect(draining.status).to.equal(httpStatus.SERVICE_UNAVAILABLE);
+        expect(draining.headers.get("connection")).to.equal("close");
+        expect(await draining.text()).to.equal("backend: draining\n");
+
+        await closing;
+
+        expect(app.server.listening).to.equal(false);
+    });
+
+    it("Closes idle keep-alive connections", async () => {
+        const app = new ornate.App({modules: [ShutdownModule], parser: {}, shutdown: {timeout: DEADLINE, signals: []}});
+        await app.listen("127.0.0.1", 0);
+
+        const port = (app.server.address() as AddressInfo).port;
+        const agent = new http.Agent({keepAlive: true});
+
+        try {
+            const socket = await new Promise<Socket>((resolve, reject) => {
+                const request = http.get(`http://127.0.0.1:${port}/slow/0`, {agent}, (response: http.IncomingMessage) => {
+                    response.resume();
+                    response.on("end", () => resolve(request.socket));
+                });
+
+                request.on("error", reject);
+            });
+            const socketClosed = new Promise((resolve) => socket.once("close", resolve));
+
+            // Returns before the deadline only if the idle connection is closed.
+            await app.close();
+            await socketClosed;
+
+        } finally {
+            agent.destroy();
+        }
+    });
+
+    it("Shuts down on the configured signals", async () => {
+        const app = new ornate.App({modules: [ShutdownModule], parser: {}, shutdown: {signals: ["SIGUSR2"]}});
+        await app.listen("127.0.0.1", 0);
+
+        const exit = process.exit;
+        const exitCode = new Promise<number>((resolve) => {
+            process.exit = ((code: number) => resolve(code)) as (code: number) => never;
+        });
+
+        try {
+            process.emit("SIGUSR2", "SIGUSR2");
+
+            expect(await exitCode).to.equal(0);
+            expect(app.server.listening).to.equal(false);
+            expect(calls).to.deep.equal(["destroy"]);
+            expect(process.listenerCount("SIGUSR2")).to.equal(0);
+
+        } finally {
+            process.exit = exit;
+        }
+    });
+
+});
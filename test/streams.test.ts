@@ -0,0 +1,170 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import * as http from "http";
+import { AddressInfo } from "net";
+import { Readable } from "stream";
+
+const expect = chai.expect;
+
+const CSV = "id,name\n1,Ada\n2,Alan\n";
+
+let source: Readable;
+
+let requestServiceCount = 0;
+const destroyedRequestServices = new Array<number>();
+
+@ornate.Service({lifetime: ornate.EServiceLifetime.REQUEST})
+class RequestService {
+
+    public readonly id = ++requestServiceCount;
+
+    public async onDestroy(): Promise<void> {
+        destroyedRequestServices.push(this.id);
+    }
+
+}
+
+@ornate.Controller("exports")
+class ExportController {
+
+    private _requestService: RequestService;
+
+    constructor(requestService: RequestService) {
+        this._requestService = requestService;
+    }
+
+    @ornate.Get("csv")
+    public csv(): ornate.StreamResponse {
+        return new ornate.StreamResponse(Readable.from(CSV.split("\n").map((line: string) => `${line}\n`).slice(0, -1)), "text/csv", CSV.length);
+    }
+
+    @ornate.Get("lines")
+    public lines(): ornate.StreamResponse {
+        async function* generate(): AsyncIterable<string> {
+            yield "first\n";
+            yield "second\n";
+        }
+
+        return new ornate.StreamResponse(generate(), "text/plain");
+    }
+
+    @ornate.Get("broken")
+    public broken(): ornate.StreamResponse {
+        async function* generate(): AsyncIterable<string> {
+            yield "first\n";
+            throw new Error("Source failed");
+        }
+
+        return new ornate.StreamResponse(generate(), "text/plain");
+    }
+
+    @ornate.Get("scoped")
+    public scoped(): ornate.StreamResponse {
+        const requestService = this._requestService;
+
+        async function* generate(): AsyncIterable<string> {
+            yield `${requestService.id}\n`;
+            await new Promise<void>((resolve) => setImmediate(resolve));
+            yield `${requestService.id}\n`;
+        }
+
+        return new ornate.StreamResponse(generate(), "text/plain");
+    }
+
+    @ornate.Get("endless")
+    public endless(): ornate.StreamResponse {
+        source = new Readable({
+            read(): void {
+                setImmediate(() => this.push("data\n"));
+            }
+        });
+
+        return new ornate.StreamResponse(source);
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        ExportController
+    ],
+    services: [
+        RequestService
+    ]
+})
+class ExportModule {}
+
+describe("Ornate App streaming responses", () => {
+
+    let app: ornate.App;
+
+    beforeEach(() => {
+        app = new ornate.App({modules: [ExportModule], parser: {}});
+    });
+
+    it("Streams readables with their content type and length", async () => {
+        const response = await app.getRouter().get("/exports/csv", {});
+
+        expect(response.body).to.equal(CSV);
+        expect(response.headers["content-type"]).to.equal("text/csv; charset=utf-8");
+        expect(response.headers["content-length"]).to.equal(String(CSV.length));
+    });
+
+    it("Streams async iterables", async () => {
+        const response = await app.getRouter().get("/exports/lines", {});
+
+        expect(response.body).to.equal("first\nsecond\n");
+        expect(response.headers["transfer-encoding"]).to.equal("chunked");
+    });
+
+    it("Ends the response when the source fails", async () => {
+        const server = app.server.listen(0);
+        const port = (server.address() as AddressInfo).port;
+
+        try {
+            const err = await new Promise<NodeJS.ErrnoException>((resolve) => {
+                http.get(`http://127.0.0.1:${port}/exports/broken`, (response: http.IncomingMessage) => {
+                    response.on("data", () => undefined);
+                    response.once("error", resolve);
+                });
+            });
+
+            expect(err.message).to.equal("aborted");
+
+        } finally {
+            server.close();
+        }
+    });
+
+    it("Keeps the request scope while streaming", async () => {
+        const response = await app.getRouter().get<string>("/exports/scoped", {});
+        const id = Number(response.body.split("\n")[0]);
+
+        expect(response.body).to.equal(`${id}\n${id}\n`);
+        expect(destroyedRequestServices).to.deep.equal([id]);
+    });
+
+    it("Destroys the source when the client disconnects", async () => {
+        const server = app.server.listen(0);
+        const port = (server.address() as AddressInfo).port;
+
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const request = http.get(`http://127.0.0.1:${port}/exports/endless`, (response: http.IncomingMessage) => {
+                    response.once("data", () => {
+                        source.once("close", resolve);
+                        request.destroy();
+                    });
+                });
+
+                request.on("error", (err: NodeJS.ErrnoException) => err.code !== "ECONNRESET" ? reject(err) : undefined);
+            });
+
+            expect(source.destroyed).to.equal(true);
+
+        } finally {
+            server.close();
+        }
+    });
+
+});
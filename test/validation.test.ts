@@ -0,0 +1,112 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+
+const expect = chai.expect;
+
+@ornate.Service()
+class UserService {
+
+    @ornate.Resolver("user")
+    public async user(id: string): Promise<string> {
+        return id;
+    }
+
+}
+
+@ornate.Service()
+class AuditService {
+
+    @ornate.Generic("audit")
+    public async audit(): Promise<void> {
+    }
+
+}
+
+@ornate.Controller("users")
+class UserController {
+
+    @ornate.Get(":id")
+    public get(
+        @ornate.Param("id") @ornate.Resolve(UserService, "user") user: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(user);
+    }
+
+    @ornate.Get(":name")
+    public getByName(
+        @ornate.Param("name") @ornate.Resolve(UserService, "user") user: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(user);
+    }
+
+    @ornate.Get("me")
+    public me(): ornate.TextResponse {
+        return new ornate.TextResponse("me");
+    }
+
+    @ornate.After(AuditService, "audit")
+    @ornate.Delete(":id")
+    public delete(
+        @ornate.Param("id") @ornate.Validate(UserService, "owner") id: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(id);
+    }
+
+}
+
+@ornate.Controller("users")
+class ValidUserController {
+
+    @ornate.Get("me")
+    public me(): ornate.TextResponse {
+        return new ornate.TextResponse("me");
+    }
+
+    @ornate.Get(":id")
+    public get(
+        @ornate.Param("id") @ornate.Resolve(UserService, "user") user: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(user);
+    }
+
+}
+
+@ornate.Module({
+    services: [
+        UserService
+    ],
+    controllers: [
+        UserController
+    ]
+})
+class UserModule {}
+
+@ornate.Module({
+    services: [
+        UserService
+    ],
+    controllers: [
+        ValidUserController
+    ]
+})
+class ValidUserModule {}
+
+describe("Ornate App startup validation", () => {
+
+    it("Reports every invalid action at once", () => {
+        expect(() => new ornate.App({modules: [UserModule]}))
+            .to.throw(ornate.StartupError)
+            .with.property("data")
+            .that.deep.equals([
+                {action: "UserController.delete", reason: "service not registered in any module: AuditService"},
+                {action: "UserController.delete", reason: "unknown validator policy: UserService.owner"},
+                {action: "UserController.getByName", reason: "GET /users/:name collides with UserController.get"},
+                {action: "UserController.me", reason: "GET /users/me is shadowed by UserController.get (/users/:id)"}
+            ]);
+    });
+
+    it("Accepts static routes registered before parameters", () => {
+        expect(() => new ornate.App({modules: [ValidUserModule]})).not.to.throw();
+    });
+
+});
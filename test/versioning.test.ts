@@ -0,0 +1,136 @@
+import * as ornate from "../src/ornate";
+import * as chai from "chai";
+import chaiAsPromised from "chai-as-promised";
+import * as httpStatus from "http-status-codes";
+
+const expect = chai.expect;
+chai.use(chaiAsPromised);
+
+@ornate.Version("1")
+@ornate.Controller("users")
+class UserController {
+
+    @ornate.Get(":id")
+    public get(
+        @ornate.Param("id") id: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(`v1 user ${id}`);
+    }
+
+    @ornate.Version("2")
+    @ornate.Get(":id/profile")
+    public profile(
+        @ornate.Param("id") id: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(`v2 profile ${id}`);
+    }
+
+}
+
+@ornate.Version("2")
+@ornate.Controller("users")
+class UserV2Controller {
+
+    @ornate.Get(":id")
+    public get(
+        @ornate.Param("id") id: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(`v2 user ${id}`);
+    }
+
+}
+
+@ornate.Version("1")
+@ornate.Controller("videos")
+class VideoController {
+
+    @ornate.Get(":id")
+    public get(
+        @ornate.Param("id") id: string
+    ): ornate.TextResponse {
+        return new ornate.TextResponse(`v1 video ${id}`);
+    }
+
+}
+
+@ornate.Controller("status")
+class StatusController {
+
+    @ornate.Get("")
+    public status(): ornate.TextResponse {
+        return new ornate.TextResponse("ok");
+    }
+
+}
+
+@ornate.Module({
+    controllers: [
+        UserController,
+        UserV2Controller,
+        VideoController,
+        StatusController
+    ]
+})
+class UserModule {}
+
+describe("Ornate App versioning", () => {
+
+    it("Routes versions by URL prefix", async () => {
+        const app = new ornate.App({modules: [UserModule], parser: {}, versioning: {type: ornate.EVersioningType.URL, defaultVersion: "1"}});
+        const router = app.getRouter();
+
+        expect(app.getUrl("/users/:id", {id: "1"}, {}, "2")).to.equal("/v2/users/1");
+
+        expect((await router.get("/users/:id", {params: {id: "1"}, version: "1"})).body).to.equal("v1 user 1");
+        expect((await router.get("/users/:id", {params: {id: "1"}, version: "2"})).body).to.equal("v2 user 1");
+        expect((await router.get("/users/:id/profile", {params: {id: "1"}, version: "2"})).body).to.equal("v2 profile 1");
+
+        // Default version, and unversioned actions.
+        expect((await router.get("/users/:id", {params: {id: "1"}})).body).to.equal("v1 user 1");
+        expect((await router.get("/status", {})).body).to.equal("ok");
+    });
+
+    it("Routes paths starting with the URL prefix to the default version", async () => {
+        const app = new ornate.App({modules: [UserModule], parser: {}, versioning: {type: ornate.EVersioningType.URL, defaultVersion: "1"}});
+
+        expect((await app.getRouter().get("/videos/:id", {params: {id: "3"}})).body).to.equal("v1 video 3");
+        expect((await app.getRouter().get("/videos/:id", {params: {id: "3"}, version: "1"})).body).to.equal("v1 video 3");
+    });
+
+    it("Answers OPTIONS and 405 on versioned routes", async () => {
+        const app = new ornate.App({modules: [UserModule], parser: {}, versioning: {type: ornate.EVersioningType.URL}});
+        const router = app.getRouter();
+
+        expect((await router.options("/videos/:id", {params: {id: "3"}, version: "1"})).headers.allow).to.equal("HEAD, GET");
+
+        const err = await expect(router.put("/videos/:id", {params: {id: "3"}, version: "1"})).to.be.rejectedWith(Error);
+
+        expect(err.status).to.equal(httpStatus.METHOD_NOT_ALLOWED);
+        expect(err.headers.allow).to.equal("HEAD, GET");
+    });
+
+    it("Routes versions by header", async () => {
+        const app = new ornate.App({modules: [UserModule], parser: {}, versioning: {type: ornate.EVersioningType.HEADER, key: "x-version"}});
+        const router = app.getRouter();
+
+        expect((await router.get("/users/:id", {params: {id: "1"}, headers: {"x-version": "2"}})).body).to.equal("v2 user 1");
+        expect((await router.get("/users/:id", {params: {id: "1"}, version: "1"})).body).to.equal("v1 user 1");
+
+        // No default version.
+        await expect(router.get("/users/:id", {params: {id: "1"}})).to.be.rejectedWith(Error, "Not Found");
+    });
+
+    it("Routes versions by Accept parameter", async () => {
+        const app = new ornate.App({modules: [UserModule], parser: {}, versioning: {type: ornate.EVersioningType.MEDIA_TYPE}});
+        const router = app.getRouter();
+
+        expect((await router.get("/users/:id", {params: {id: "1"}, headers: {accept: "text/plain; version=2"}})).body).to.equal("v2 user 1");
+        expect((await router.get("/users/:id", {params: {id: "1"}, version: "1"})).body).to.equal("v1 user 1");
+    });
+
+    it("Requires a versioning strategy for versioned actions", () => {
+        expect(() => new ornate.App({modules: [UserModule]}))
+            .to.throw(ornate.StartupError, "UserController.get (version 1 but no versioning configured)");
+    });
+
+});
@@ -1,9 +1,11 @@
 /// <reference types="node" />
 
 import * as http from "http";
+import { Readable } from "stream";
 import * as fetch from "node-fetch";
 import Koa from "koa";
 import KoaRouter from "koa-router";
+import KoaRouterContext from "@koa/router";
 import KoaBody from "koa-body";
 import "reflect-metadata";
 
@@ -18,6 +20,31 @@ export class AuthenticationError extends AppError<any> {
 export class AuthorizationError extends AppError<any> {
     constructor(message: string, data?: any);
 }
+export interface ILifecycleFailure {
+    readonly service: string;
+    readonly hook: string;
+    readonly reason: string;
+}
+export class LifecycleError extends AppError<ILifecycleFailure[]> {
+    constructor(message: string, failures: ILifecycleFailure[]);
+}
+export interface IConfigFailure {
+    readonly key: string;
+    readonly reason: string;
+}
+export class ConfigError extends AppError<IConfigFailure[]> {
+    constructor(message: string, failures: IConfigFailure[]);
+}
+export interface IStartupFailure {
+    readonly action: string;
+    readonly reason: string;
+}
+export class StartupError extends AppError<IStartupFailure[]> {
+    constructor(message: string, failures: IStartupFailure[]);
+}
+export class MigrationError extends AppError<any> {
+    constructor(message: string, data?: any);
+}
 export class InternalServerError extends AppError<any> {
     constructor(message: string);
 }
@@ -27,15 +54,44 @@ export class ResourceError extends AppError<any> {
 export class ParameterError extends AppError<string> {
     constructor(message: string, parameter?: string);
 }
+export class NotAcceptableError extends AppError<string[]> {
+    constructor(message: string, mediaTypes: string[]);
+}
+export interface IValidationFailure {
+    readonly path: string;
+    readonly reason: string;
+}
+export class ValidationError extends AppError<IValidationFailure[]> {
+    constructor(message: string, failures: IValidationFailure[]);
+}
 export const enum EResponseType {
     NULL = 0,
     RAW = 1,
     TEXT = 2,
-    JSON = 3
+    JSON = 3,
+    STREAM = 4,
+    REDIRECT = 5,
+    DATA = 6
 }
 export interface IResponseHeaders {
     [key: string]: string;
 }
+export interface ICookieOptions {
+    readonly maxAge?: number;
+    readonly expires?: Date;
+    readonly path?: string;
+    readonly domain?: string;
+    readonly secure?: boolean;
+    readonly httpOnly?: boolean;
+    readonly sameSite?: "strict" | "lax" | "none" | boolean;
+    readonly signed?: boolean;
+    readonly overwrite?: boolean;
+}
+export interface IResponseCookie {
+    readonly name: string;
+    readonly value: string;
+    readonly options: ICookieOptions;
+}
 export class ActionResponse<T> {
     constructor(status: number, type: EResponseType, data: T, headers: IResponseHeaders, next?: boolean);
     readonly status: number;
@@ -43,10 +99,17 @@ export class ActionResponse<T> {
     readonly data: T;
     readonly headers: IResponseHeaders;
     readonly next: boolean;
+    readonly cookies: IResponseCookie[];
+    setCookie(name: string, value: string, options?: ICookieOptions): this;
+    clearCookie(name: string, options?: ICookieOptions): this;
+    withStatus(status: number): this;
 }
 export class NullResponse extends ActionResponse<void> {
     constructor(headers?: IResponseHeaders, next?: boolean);
 }
+export class NoContentResponse extends ActionResponse<void> {
+    constructor(headers?: IResponseHeaders, next?: boolean);
+}
 export class RawResponse extends ActionResponse<Buffer> {
     constructor(data: Buffer, headers?: IResponseHeaders, next?: boolean);
 }
@@ -56,9 +119,48 @@ export class TextResponse extends ActionResponse<string> {
 export class JsonResponse<T> extends ActionResponse<T> {
     constructor(data?: T, headers?: IResponseHeaders, next?: boolean);
 }
+export class CreatedResponse<T> extends ActionResponse<T> {
+    constructor(location: string, data?: T, headers?: IResponseHeaders, next?: boolean);
+}
+export class AcceptedResponse<T> extends ActionResponse<T> {
+    constructor(data?: T, headers?: IResponseHeaders, next?: boolean);
+}
+export interface ISerializer {
+    serialize(data: any): string | Buffer;
+}
+export class DataResponse<T> extends ActionResponse<T> {
+    constructor(data?: T, headers?: IResponseHeaders, next?: boolean);
+}
 export class RedirectResponse extends ActionResponse<string> {
     constructor(url: string, headers?: IResponseHeaders, next?: boolean);
 }
+export class MovedPermanentlyResponse extends ActionResponse<string> {
+    constructor(url: string, headers?: IResponseHeaders, next?: boolean);
+}
+export class TemporaryRedirectResponse extends ActionResponse<string> {
+    constructor(url: string, headers?: IResponseHeaders, next?: boolean);
+}
+export class PermanentRedirectResponse extends ActionResponse<string> {
+    constructor(url: string, headers?: IResponseHeaders, next?: boolean);
+}
+export class StreamResponse extends ActionResponse<Readable> {
+    constructor(data: Readable | AsyncIterable<any>, contentType?: string, length?: number, headers?: IResponseHeaders, next?: boolean);
+    readonly contentType: string;
+    readonly length: number;
+}
+export interface IServerEvent {
+    readonly event?: string;
+    readonly id?: string;
+    readonly data?: any;
+    readonly retry?: number;
+}
+export interface IEventStreamOptions {
+    readonly heartbeat?: number;
+}
+export type TEventSource = AsyncIterable<IServerEvent> | ((signal: AbortSignal) => AsyncIterable<IServerEvent>);
+export class EventStreamResponse extends StreamResponse {
+    constructor(events: TEventSource, options?: IEventStreamOptions, headers?: IResponseHeaders, next?: boolean);
+}
 export const enum ESuiteFunctionType {
     BEFORE_ALL = "before-all",
     AFTER_ALL = "after-all",
@@ -78,7 +180,11 @@ export const enum EArgType {
     PARAM = "param",
     QUERY = "query",
     METHOD = "method",
-    ROUTE = "route"
+    ROUTE = "route",
+    FILE = "file",
+    FILES = "files",
+    COOKIE = "cookie",
+    CUSTOM = "custom"
 }
 export const enum ERequestMethod {
     GET = "GET",
@@ -89,34 +195,70 @@ export const enum ERequestMethod {
     HEAD = "HEAD",
     PATCH = "PATCH"
 }
+export const enum EServiceLifetime {
+    SINGLETON = "singleton",
+    REQUEST = "request",
+    TRANSIENT = "transient"
+}
 export const enum EPropertyType {
     HTTP_SERVER = 0
 }
 export const enum EInjectableType {
     HTTP_SERVER = 0
 }
+export const enum EUnknownFields {
+    ALLOW = "allow",
+    STRIP = "strip",
+    REJECT = "reject"
+}
 export type TType<T> = new (...args: any[]) => T;
+export type TAbstractType<T> = abstract new (...args: any[]) => T;
+export type TInjectionToken = string | symbol | TAbstractType<any>;
+export type TProviderFactory<T> = (...args: any[]) => T | Promise<T>;
 export type TActionHandler<T> = (...args: any[]) => Promise<ActionResponse<T>>;
 export type TMiddlewareHandler<T> = (...args: any[]) => Promise<T>;
 export interface IProviderParameters {
-    readonly provides: any;
-    readonly service: TType<any>;
+    readonly provides: TInjectionToken;
+    readonly service?: TType<any>;
+    readonly useClass?: TType<any>;
+    readonly useValue?: any;
+    readonly useFactory?: TProviderFactory<any>;
+    readonly inject?: TInjectionToken[];
+}
+export interface IServiceParameters {
+    readonly lifetime?: EServiceLifetime;
 }
 export interface IModuleParameters {
     readonly route?: string;
-    readonly modules?: AnyType[];
+    readonly modules?: TModuleDefinition[];
     readonly services?: AnyType[];
+    /** @deprecated Every service is initialized. */
     readonly initialize?: AnyType[];
     readonly migrations?: AnyType[];
     readonly providers?: IProviderParameters[];
     readonly controllers?: AnyType[];
+    readonly exports?: TInjectionToken[];
+    readonly authenticate?: IMiddlewareReference[];
+    readonly authorize?: IMiddlewareReference[];
+    readonly before?: IMiddlewareReference[];
+    readonly after?: IMiddlewareReference[];
+}
+export interface IMiddlewareReference {
+    readonly service: TType<any>;
+    readonly name: string;
+    readonly params?: any[];
 }
+export interface IDynamicModule extends IModuleParameters {
+    readonly module: TType<any>;
+}
+export type TModuleDefinition = TType<any> | IDynamicModule;
 export interface IModuleMetadata {
     readonly name: string;
     readonly params: IModuleParameters;
 }
 export interface IServiceMetadata {
     readonly name: string;
+    readonly lifetime: EServiceLifetime;
     readonly properties: IPropertyMetadata[];
     readonly middlewares: IMiddlewareMetadata[];
 }
@@ -191,11 +333,14 @@ export interface IActionPolicyMetadata {
     readonly name: string;
 }
 export function Module(params?: IModuleParameters): (target: TType<any>) => void;
-export function Service(): <T>(target: TType<T>) => void;
+export function Service(params?: IServiceParameters): <T>(target: TType<T>) => void;
 export function Migration(name: string): <T>(target: TType<T>) => void;
 export function Controller(route: string): <T>(target: TType<T>) => void;
 export function Injector(): (target: any, handler: string, index: number) => void;
 export function HttpServer(): (target: any, handler: string, index: number) => void;
+export function Inject(token: TInjectionToken): (target: any, handler: string, index: number) => void;
+export function Config(key?: string): (target: any, handler: string, index: number) => void;
+export function Lazy<T>(ref: () => TType<T>): (target: any, handler: string, index: number) => void;
 export function Authentication(name: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
 export function Resolver(name: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
 export function Policy(name: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
@@ -204,22 +349,64 @@ export function Get(route: string): (target: any, handler: string, descriptor: P
 export function Post(route: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
 export function Put(route: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
 export function Delete(route: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
-export function Authenticate<T>(service: TType<T>, name: string, ...params: any[]): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
-export function Authorize<T>(service: TType<T>, name: string, ...params: any[]): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
-export function Before<T>(service: TType<T>, name: string, ...params: any[]): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
-export function After<T>(service: TType<T>, name: string, ...params: any[]): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
+export function Patch(route: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
+export function Head(route: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
+export function Options(route: string): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
+export function Authenticate<T>(service: TType<T>, name: string, ...params: any[]): (target: any, handler?: string, descriptor?: PropertyDescriptor) => void;
+export function Authorize<T>(service: TType<T>, name: string, ...params: any[]): (target: any, handler?: string, descriptor?: PropertyDescriptor) => void;
+export function Before<T>(service: TType<T>, name: string, ...params: any[]): (target: any, handler?: string, descriptor?: PropertyDescriptor) => void;
+export function After<T>(service: TType<T>, name: string, ...params: any[]): (target: any, handler?: string, descriptor?: PropertyDescriptor) => void;
+export function Public(): (target: any, handler: string, descriptor: PropertyDescriptor) => void;
+export function Version(version: string): (target: any, handler?: string, descriptor?: PropertyDescriptor) => void;
+export function Produces(...mediaTypes: string[]): (target: any, handler?: string, descriptor?: PropertyDescriptor) => void;
 export function Resolve<T>(service: TType<T>, name: string, required?: boolean): (target: any, handler: string, index: number) => void;
 export function Validate<T>(service: TType<T>, name: string): (target: any, handler: string, index: number) => void;
 export function Context(): (target: any, handler: string, index: number) => void;
 export function State(): (target: any, handler: string, index: number) => void;
 export function Host(): (target: any, handler: string, index: number) => void;
 export function Hostname(): (target: any, handler: string, index: number) => void;
-export function Header(name: string, required?: boolean): (target: any, handler: string, index: number) => void;
+export interface IArgOptions {
+    readonly required?: boolean;
+    readonly enum?: object;
+    readonly items?: TType<any>;
+}
+export function Header(name: string, options?: boolean | IArgOptions): (target: any, handler: string, index: number) => void;
+export function LastEventId(): (target: any, handler: string, index: number) => void;
+export interface ICookieArgOptions extends IArgOptions {
+    readonly signed?: boolean;
+}
+export function Cookie(name: string, options?: boolean | ICookieArgOptions): (target: any, handler: string, index: number) => void;
+export type TArgExtractor<T, D> = (context: KoaRouterContext.RouterContext, data: D) => T | Promise<T>;
+export function createParamDecorator<T, D = undefined>(extractor: TArgExtractor<T, D>): (data?: D) => (target: any, handler: string, index: number) => void;
 export function Method(): (target: any, handler: string, index: number) => void;
 export function Route(): (target: any, handler: string, index: number) => void;
-export function Body(name: string, required?: boolean): (target: any, handler: string, index: number) => void;
-export function Param(name: string, required?: boolean): (target: any, handler: string, index: number) => void;
-export function Query(name: string, required?: boolean): (target: any, handler: string, index: number) => void;
+export interface IBodyOptions {
+    readonly unknown?: EUnknownFields;
+}
+export function Body(options?: IBodyOptions): (target: any, handler: string, index: number) => void;
+export function Body(name: string, options?: boolean | IArgOptions): (target: any, handler: string, index: number) => void;
+export interface IFieldOptions {
+    readonly optional?: boolean;
+    readonly type?: TType<any>;
+    readonly enum?: object;
+    readonly items?: TType<any>;
+}
+export function Field(options?: IFieldOptions): (target: any, property: string) => void;
+export function Length(min: number, max?: number): (target: any, property: string) => void;
+export function Range(min: number, max?: number): (target: any, property: string) => void;
+export function Pattern(pattern: RegExp): (target: any, property: string) => void;
+export function Exclude(): (target: any, property: string) => void;
+export function Expose(...groups: string[]): (target: any, property: string) => void;
+export function Rename(name: string): (target: any, property: string) => void;
+export function Transform(transform: (value: any, object: any) => any): (target: any, property: string) => void;
+export function Groups(...groups: string[]): (target: any, handler?: string, descriptor?: PropertyDescriptor) => void;
+export type TParamType = "int" | "number" | "uuid" | "alpha";
+export interface IParamOptions extends IArgOptions {
+    readonly type?: TParamType;
+    readonly pattern?: string;
+}
+export function Param(name: string, options?: boolean | IParamOptions): (target: any, handler: string, index: number) => void;
+export function Query(name: string, options?: boolean | IArgOptions): (target: any, handler: string, index: number) => void;
 
 export function ServiceStub<T>(RealType: TType<T>): <U>(StubType: TType<U>) => void;
 export function Fake(auto?: boolean): (StubType: any, handler: string, descriptor: PropertyDescriptor) => void;
@@ -258,29 +445,189 @@ export interface IBodyParserParams {
     readonly json?: {limit: string | number};
     readonly urlencoded?: boolean;
 }
+export interface ILifecycleParams {
+    readonly initTimeout?: number;
+    readonly destroyTimeout?: number;
+}
+export const enum EConfigType {
+    STRING = "string",
+    NUMBER = "number",
+    BOOLEAN = "boolean",
+    JSON = "json"
+}
+export interface IConfigKey {
+    readonly type?: EConfigType;
+    readonly env?: string;
+    readonly default?: any;
+    readonly required?: boolean;
+    readonly choices?: any[];
+}
+export interface IConfigSchema {
+    readonly [key: string]: IConfigKey;
+}
+export interface IConfigParams {
+    readonly schema: IConfigSchema;
+    readonly files?: string[];
+    readonly env?: boolean;
+}
+export interface IMigrationState {
+    readonly name: string;
+    readonly appliedAt: string;
+}
+export interface IMigrationStore {
+    lock(): Promise<void>;
+    unlock(): Promise<void>;
+    load(): Promise<IMigrationState[]>;
+    save(applied: IMigrationState[]): Promise<void>;
+}
+export interface IFileOptions {
+    readonly required?: boolean;
+    readonly maxSize?: number;
+    readonly types?: string[];
+}
+export interface IFilesOptions extends IFileOptions {
+    readonly maxCount?: number;
+}
+export class UploadedFile {
+    constructor(name: string, size: number, type: string, path: string);
+    readonly name: string;
+    readonly size: number;
+    readonly type: string;
+    readonly path: string;
+    stream(): Readable;
+}
+export function File(name: string, options?: boolean | IFileOptions): (target: any, handler: string, index: number) => void;
+export function Files(name: string, options?: boolean | IFilesOptions): (target: any, handler: string, index: number) => void;
+export interface IMigrationParams {
+    readonly store?: IMigrationStore;
+}
+export class FileMigrationStore implements IMigrationStore {
+    constructor(file?: string);
+    lock(): Promise<void>;
+    unlock(): Promise<void>;
+    load(): Promise<IMigrationState[]>;
+    save(applied: IMigrationState[]): Promise<void>;
+}
+export class AppConfig {
+    constructor(params: IConfigParams);
+    has(key: string): boolean;
+    get<T>(key: string): T;
+}
+export const enum EVersioningType {
+    URL = "url",
+    HEADER = "header",
+    MEDIA_TYPE = "media-type"
+}
+export interface IVersioningParams {
+    readonly type: EVersioningType;
+    readonly key?: string;
+    readonly defaultVersion?: string;
+}
+export interface ICookieParams {
+    readonly keys: string[];
+}
+export interface IShutdownParams {
+    readonly timeout?: number;
+    readonly signals?: NodeJS.Signals[];
+    readonly drainDelay?: number;
+}
 export interface IAppParams {
     readonly logger?: ILogger;
-    readonly modules: TType<any>[];
+    readonly lifecycle?: ILifecycleParams;
+    readonly shutdown?: IShutdownParams;
+    readonly config?: IConfigParams;
+    readonly migrations?: IMigrationParams;
+    readonly versioning?: IVersioningParams;
+    readonly cookies?: ICookieParams;
+    readonly serializers?: {[mediaType: string]: ISerializer};
+    readonly modules: TModuleDefinition[];
     readonly parser?: IBodyParserParams;
 }
 export interface IAppContext {
     method: ERequestMethod;
     route: string;
+    routerPath?: string;
 }
 export type TAppContext = KoaRouter.RouterContext<any, IAppContext>;
 export class AppInjector {
     getService<T extends IServiceInstance>(target: TType<T>): T;
     getProvider<T extends IServiceInstance>(name: string, ...params: any[]): T
+    getToken<T>(token: TInjectionToken): T;
     getMigration<T extends IMigrationInstance>(name: string): T;
     getMigrations(): string[];
 }
+export interface IGraphMiddleware {
+    readonly service: string;
+    readonly name: string;
+}
+export interface IGraphArgMiddleware extends IGraphMiddleware {
+    readonly index: number;
+}
+export interface IGraphAction {
+    readonly name: string;
+    readonly method: string;
+    readonly route: string;
+    readonly version?: string;
+    readonly authentication: IGraphMiddleware[];
+    readonly authorization: IGraphMiddleware[];
+    readonly before: IGraphMiddleware[];
+    readonly after: IGraphMiddleware[];
+    readonly resolvers: IGraphArgMiddleware[];
+    readonly validators: IGraphArgMiddleware[];
+}
+export interface IGraphController {
+    readonly name: string;
+    readonly route: string;
+    readonly dependencies: string[];
+    readonly actions: IGraphAction[];
+}
+export interface IGraphServiceMiddleware {
+    readonly type: string;
+    readonly name: string;
+}
+export interface IGraphService {
+    readonly name: string;
+    readonly lifetime: string;
+    readonly dependencies: string[];
+    readonly middlewares: IGraphServiceMiddleware[];
+}
+export interface IGraphProvider {
+    readonly token: string;
+    readonly kind: string;
+    readonly dependencies: string[];
+}
+export interface IGraphModule {
+    readonly name: string;
+    readonly route: string;
+    readonly imports: string[];
+    readonly exports: string[];
+    readonly services: IGraphService[];
+    readonly providers: IGraphProvider[];
+    readonly migrations: string[];
+    readonly controllers: IGraphController[];
+}
+export interface IAppGraph {
+    readonly modules: IGraphModule[];
+}
+export class GraphExporter {
+    static toJson(graph: IAppGraph): string;
+    static toDot(graph: IAppGraph): string;
+}
 export class App {
     readonly injector: AppInjector;
+    readonly draining: boolean;
+    readonly config: AppConfig;
     constructor(params: IAppParams);
+    describe(): IAppGraph;
+    getUrl(name: string, params: {[key: string]: string}, query: {[key: string]: string | string[]}, version?: string): string;
+    getVersionHeaders(version?: string): {[header: string]: string};
     getRouter(): {
         [type: string]: (url: string, options?: ITestRequestOptions) => Test;
     };
     run(): Promise<void>;
+    getPendingMigrations(): Promise<string[]>;
+    migrate(): Promise<string[]>;
+    rollback(count?: number): Promise<string[]>;
     stop(): Promise<void>;
     close(): Promise<void>;
     listen(host: string, port: number): Promise<void>;
@@ -291,20 +638,25 @@ export class TestRunner {
     stop(): Promise<void>;
 }
 export interface IApiResponse<T> {
+    status: number;
     headers: IHttpHeaders;
+    cookies: string[];
     body: T;
 }
 export interface ITestRequestOptions {
     body?: fetch.BodyInit;
     params?: {[param: string]: string};
-    query?: {[param: string]: string};
+    query?: {[param: string]: string | string[]};
     headers?: fetch.HeaderInit;
+    version?: string;
+    redirect?: fetch.RequestRedirect;
 }
 export class TestError extends Error {
-    constructor(route: string, status: number, statusText: string, message: string);
+    constructor(route: string, status: number, statusText: string, message: string, headers?: IHttpHeaders);
     readonly route: string;
     readonly status: number;
     readonly statusText: string;
+    readonly headers: IHttpHeaders;
 }
 export interface ITestRouter {
     [method: string]: <T>(url: string, options?: ITestRequestOptions) => Promise<IApiResponse<T>>;